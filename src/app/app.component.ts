@@ -1,9 +1,25 @@
-import { Component, OnInit, OnDestroy } from '@angular/core';
-import { Subject } from 'rxjs';
+import { Component, OnInit, OnDestroy, HostListener } from '@angular/core';
+import { Subject, firstValueFrom } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
-import { DataPoint, PlotField, DEFAULT_COLORS } from './models/data.model';
-import { CsvService } from './services/csv.service';
+import { MatDialog } from '@angular/material/dialog';
+import {
+  PlotField, ParseProgress, CsvMetadata, DateTimeOptions, ColumnMappingRequest, DataSource, MergeOptions,
+  SeriesGrouping, DuplicatePolicy, UnitSystem, InputFormat, DEFAULT_COLORS, DEFAULT_DATETIME_OPTIONS, DEFAULT_MERGE_OPTIONS,
+  RecentDataset, DecimationMethod, ChartPanel, YAxisSide, YAxisSettings, SmoothingOverlay, FieldThreshold,
+  DEFAULT_DUPLICATE_POLICY, DEFAULT_UNIT_SYSTEM, DEFAULT_DECIMATION_METHOD
+} from './models/data.model';
+import { CsvService, ParseCancelledError } from './services/csv.service';
 import { SyncService } from './services/sync.service';
+import { GroupingService } from './services/grouping.service';
+import { UnitService } from './services/unit.service';
+import { ChartSettingsService } from './services/chart-settings.service';
+import { DatasetStoreService } from './services/dataset-store.service';
+import { ColumnStore } from './utils/column-store';
+import { canChangeChartType } from './utils/field-types';
+import { moveToPanel, setPanelAxis, setPanelOverlays, splitFromPanel, syncPanels } from './utils/chart-panels';
+import { ColumnMappingDialogComponent } from './components/column-mapping-dialog/column-mapping-dialog.component';
+import { UrlDialogComponent } from './components/url-dialog/url-dialog.component';
+import { DerivedFieldDialogComponent } from './components/derived-field-dialog/derived-field-dialog.component';
 
 @Component({
   selector: 'app-root',
@@ -12,15 +28,34 @@ import { SyncService } from './services/sync.service';
 })
 export class AppComponent implements OnInit, OnDestroy {
   title = 'CSV Data Plotter';
-  data: DataPoint[] = [];
+  data: ColumnStore = ColumnStore.empty();
   availableFields: PlotField[] = [];
   selectedFields: PlotField[] = [];
+  panels: ChartPanel[] = [];
+  addableFields: { [panelId: string]: PlotField[] } = {}; // Line fields each panel can take in
+  parseProgress: ParseProgress | null = null;
+  sources: DataSource[] = [];
+  mergeOptions: MergeOptions = DEFAULT_MERGE_OPTIONS;
+  duplicatePolicy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY;
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM;
+  decimation: DecimationMethod = DEFAULT_DECIMATION_METHOD;
+  grouping: SeriesGrouping | null = null;
+  dateTimeOptions: DateTimeOptions = DEFAULT_DATETIME_OPTIONS;
+  inputFormat: InputFormat = 'auto';
+  loadError: string | null = null;
+  recentDatasets: RecentDataset[] = [];
+  isDragOver = false;
   
   private destroy$ = new Subject<void>();
 
   constructor(
     private csvService: CsvService,
-    private syncService: SyncService
+    private syncService: SyncService,
+    private groupingService: GroupingService,
+    private unitService: UnitService,
+    private chartSettings: ChartSettingsService,
+    private datasetStore: DatasetStoreService,
+    private dialog: MatDialog
   ) {}
 
   ngOnInit(): void {
@@ -30,14 +65,11 @@ export class AppComponent implements OnInit, OnDestroy {
         this.data = data;
         
         // Set data bounds for zoom constraints
-        if (data.length > 0) {
-          const timeExtent = data.map(d => d.datetime);
-          const minTime = new Date(Math.min(...timeExtent.map(d => d.getTime())));
-          const maxTime = new Date(Math.max(...timeExtent.map(d => d.getTime())));
-          
+        const timeExtent = data.timeExtent();
+        if (timeExtent) {
           this.syncService.setDataBounds({
-            start: minTime,
-            end: maxTime
+            start: new Date(timeExtent[0]),
+            end: new Date(timeExtent[1])
           });
         }
       });
@@ -46,9 +78,91 @@ export class AppComponent implements OnInit, OnDestroy {
       .pipe(takeUntil(this.destroy$))
       .subscribe(fields => {
         this.availableFields = fields;
-        // Auto-select first few fields when new data is loaded
-        this.selectedFields = fields.filter(f => f.selected);
+        // Keep the user's choice while those fields are still there, e.g. after
+        // adding a derived field; otherwise auto-select the first few fields
+        const byKey = new Map(fields.map(field => [field.key, field]));
+        const kept = this.selectedFields
+          .filter(field => byKey.has(field.key))
+          .map(field => {
+            const fresh = byKey.get(field.key)!;
+            return {
+              ...fresh,
+              selected: true,
+              color: field.color,
+              chartType: canChangeChartType(fresh.dataType) ? field.chartType : fresh.chartType,
+              yAxis: field.yAxis,
+              thresholds: field.thresholds
+            };
+          });
+        this.selectedFields = kept.length > 0 ? kept : fields.filter(f => f.selected);
+        this.setPanels(syncPanels(kept.length > 0 ? this.panels : [], this.selectedFields));
+      });
+
+    this.csvService.progress$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(progress => {
+        this.parseProgress = progress;
+      });
+
+    this.csvService.sources$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(sources => {
+        this.sources = sources;
+      });
+
+    this.csvService.mergeOptions$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(options => {
+        this.mergeOptions = options;
+      });
+
+    this.csvService.duplicatePolicy$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(policy => {
+        this.duplicatePolicy = policy;
+      });
+
+    this.unitService.unitSystem$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(system => {
+        this.unitSystem = system;
+      });
+
+    this.chartSettings.decimation$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(method => {
+        this.decimation = method;
+      });
+
+    this.groupingService.grouping$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(grouping => {
+        this.grouping = grouping;
+      });
+
+    this.csvService.dateTimeOptions$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(options => {
+        this.dateTimeOptions = options;
       });
+
+    this.csvService.inputFormat$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(format => {
+        this.inputFormat = format;
+      });
+
+    this.datasetStore.recent$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(entries => {
+        this.recentDatasets = entries;
+      });
+
+    // A dataset can be linked to directly, e.g. ?url=assets/data.csv
+    const url = new URLSearchParams(window.location.search).get('url');
+    if (url) {
+      this.loadFromUrl(url);
+    }
   }
 
   ngOnDestroy(): void {
@@ -64,17 +178,232 @@ export class AppComponent implements OnInit, OnDestroy {
       color: DEFAULT_COLORS[this.selectedFields.length % DEFAULT_COLORS.length]
     };
     this.selectedFields = [...this.selectedFields, selectedField];
+    this.setPanels(syncPanels(this.panels, this.selectedFields));
   }
 
   onFieldRemoved(field: PlotField): void {
     this.selectedFields = this.selectedFields.filter(f => f.key !== field.key);
+    this.setPanels(syncPanels(this.panels, this.selectedFields));
+  }
+
+  onPanelFieldAdded(panel: ChartPanel, field: PlotField): void {
+    this.setPanels(moveToPanel(this.panels, panel.id, field));
+  }
+
+  onPanelFieldSplit(panel: ChartPanel, field: PlotField): void {
+    this.setPanels(splitFromPanel(this.panels, panel.id, field));
+  }
+
+  onPanelAxisChange(panel: ChartPanel, change: { field: PlotField, axis: YAxisSide }): void {
+    this.setPanels(setPanelAxis(this.panels, panel.id, change.field.key, change.axis));
+  }
+
+  onPanelOverlaysChange(panel: ChartPanel, overlays: SmoothingOverlay[]): void {
+    this.setPanels(setPanelOverlays(this.panels, panel.id, overlays));
+  }
+
+  onYAxisChange(changes: { field: PlotField, settings: YAxisSettings }[]): void {
+    for (const change of changes) {
+      this.updateFields([change.field.key], { yAxis: change.settings });
+    }
+  }
+
+  onChartTypeChange(change: { field: PlotField, chartType: PlotField['chartType'] }): void {
+    this.updateFields([change.field.key], { chartType: change.chartType });
+  }
+
+  onThresholdsChange(change: { field: PlotField, thresholds: FieldThreshold[] }): void {
+    this.updateFields([change.field.key], { thresholds: change.thresholds });
+  }
+
+  trackPanel(_: number, panel: ChartPanel): string {
+    return panel.id;
+  }
+
+  // Kept on the field, so the settings survive moving it between panels or deselecting it
+  private updateFields(keys: string[], changes: Partial<PlotField>): void {
+    const update = (field: PlotField) => keys.includes(field.key) ? { ...field, ...changes } : field;
+    this.availableFields = this.availableFields.map(update);
+    this.selectedFields = this.selectedFields.map(update);
+    this.setPanels(syncPanels(this.panels, this.selectedFields));
+  }
+
+  private setPanels(panels: ChartPanel[]): void {
+    this.panels = panels;
+    const lineFields = this.selectedFields.filter(field => field.chartType === 'line');
+    this.addableFields = Object.fromEntries(panels.map(panel => [
+      panel.id,
+      panel.fields[0].chartType === 'line' ? lineFields.filter(field => !panel.fields.includes(field)) : []
+    ]));
   }
 
   onFileUpload(file: File): void {
-    this.csvService.parseFile(file)
-      .catch(error => {
-        console.error('Error parsing file:', error);
-      });
+    this.loadError = null;
+    this.csvService.parseFile(file, request => this.confirmColumnMapping(request))
+      .catch(error => this.handleParseError(error));
+  }
+
+  /**
+   * Add files to the loaded data. Dropped, pasted and fetched files also come
+   * through here; with nothing loaded yet they start a new dataset.
+   */
+  onFilesAdd(files: File[]): void {
+    // Load one file at a time so each gets its own column mapping step
+    this.loadError = null;
+    files
+      .reduce<Promise<unknown>>(
+        (previous, file) => previous.then(() =>
+          this.csvService.addFile(file, request => this.confirmColumnMapping(request))),
+        Promise.resolve()
+      )
+      .catch(error => this.handleParseError(error));
+  }
+
+  onLoadUrl(): void {
+    const dialogRef = this.dialog.open<UrlDialogComponent, void, string | null>(UrlDialogComponent, { width: '520px' });
+    firstValueFrom(dialogRef.afterClosed()).then(url => {
+      if (url) {
+        this.loadFromUrl(url);
+      }
+    });
+  }
+
+  onNewDerivedField(): void {
+    const dialogRef = this.dialog.open<DerivedFieldDialogComponent, void, string | null>(
+      DerivedFieldDialogComponent,
+      { width: '640px' }
+    );
+    firstValueFrom(dialogRef.afterClosed()).then(key => {
+      // Plot the new field straight away
+      const field = this.availableFields.find(f => f.key === key);
+      if (field && !this.selectedFields.some(f => f.key === key)) {
+        this.onFieldSelected(field);
+      }
+    });
+  }
+
+  onDragOver(event: DragEvent): void {
+    if (event.dataTransfer?.types.includes('Files')) {
+      event.preventDefault();
+      this.isDragOver = true;
+    }
+  }
+
+  onDragLeave(event: DragEvent): void {
+    // Moving between child elements also fires dragleave
+    if (!(event.currentTarget as Node).contains(event.relatedTarget as Node | null)) {
+      this.isDragOver = false;
+    }
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver = false;
+    this.onFilesAdd(Array.from(event.dataTransfer?.files ?? []));
+  }
+
+  @HostListener('document:paste', ['$event'])
+  onPaste(event: ClipboardEvent): void {
+    // Leave pastes into text fields alone
+    const target = event.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA'].includes(target.tagName))) {
+      return;
+    }
+
+    const files = Array.from(event.clipboardData?.files ?? []);
+    const text = event.clipboardData?.getData('text/plain') ?? '';
+    if (files.length > 0) {
+      event.preventDefault();
+      this.onFilesAdd(files);
+    } else if (text.trim() !== '') {
+      event.preventDefault();
+      this.onFilesAdd([this.csvService.createFileFromText(text)]);
+    }
+  }
+
+  onSourceRemoved(source: DataSource): void {
+    this.csvService.removeSource(source.id);
+  }
+
+  onMergeOptionsChange(options: MergeOptions): void {
+    this.csvService.setMergeOptions(options);
+  }
+
+  onDuplicatePolicyChange(policy: DuplicatePolicy): void {
+    this.csvService.setDuplicatePolicy(policy)
+      .catch(error => this.handleParseError(error));
+  }
+
+  onUnitSystemChange(system: UnitSystem): void {
+    this.unitService.setUnitSystem(system);
+  }
+
+  onDecimationChange(method: DecimationMethod): void {
+    this.chartSettings.setDecimation(method);
+  }
+
+  onGroupFieldChange(field: string | null): void {
+    this.groupingService.setGroupField(field);
+  }
+
+  onGroupVisibilityChange(change: { value: string, visible: boolean }): void {
+    this.groupingService.setGroupVisible(change.value, change.visible);
+  }
+
+  onDateTimeOptionsChange(options: DateTimeOptions): void {
+    this.csvService.setDateTimeOptions(options)
+      .catch(error => this.handleParseError(error));
+  }
+
+  onLoadErrorDismissed(): void {
+    this.loadError = null;
+  }
+
+  onRecentOpened(entry: RecentDataset): void {
+    this.loadError = null;
+    this.csvService.openStoredDataset(entry.id)
+      .catch(error => this.handleParseError(error));
+  }
+
+  onRecentDeleted(entry: RecentDataset): void {
+    this.datasetStore.delete(entry.id)
+      .catch(error => console.warn('Could not delete stored dataset:', error));
+  }
+
+  onInputFormatChange(format: InputFormat): void {
+    this.csvService.setInputFormat(format);
+  }
+
+  onCancelParse(): void {
+    this.csvService.cancelParse();
+  }
+
+  private loadFromUrl(url: string): void {
+    this.loadError = null;
+    this.csvService.fetchFile(url)
+      .then(file => this.onFilesAdd([file]))
+      .catch(error => this.handleParseError(error));
+  }
+
+  private confirmColumnMapping(request: ColumnMappingRequest): Promise<CsvMetadata | null> {
+    const dialogRef = this.dialog.open<ColumnMappingDialogComponent, ColumnMappingRequest, CsvMetadata | null>(
+      ColumnMappingDialogComponent,
+      {
+        data: request,
+        width: '720px',
+        disableClose: true
+      }
+    );
+    return firstValueFrom(dialogRef.afterClosed()).then(result => result ?? null);
+  }
+
+  private handleParseError(error: unknown): void {
+    // Cancelling is a user action, not a failure
+    if (error instanceof ParseCancelledError) {
+      return;
+    }
+    console.error('Error parsing file:', error);
+    this.loadError = `Could not load the file: ${error instanceof Error ? error.message : String(error)}`;
   }
 
   onClearZoom(): void {
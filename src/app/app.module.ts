@@ -13,12 +13,23 @@ import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatSelectModule } from '@angular/material/select';
 import { MatFormFieldModule } from '@angular/material/form-field';
 import { MatChipsModule } from '@angular/material/chips';
+import { MatProgressBarModule } from '@angular/material/progress-bar';
+import { MatDialogModule } from '@angular/material/dialog';
 
 // Components
 import { ChartComponent } from './components/chart/chart.component';
 import { MapComponent } from './components/map/map.component';
 import { FieldSelectorComponent } from './components/field-selector/field-selector.component';
 import { StateChartComponent } from './components/state-chart/state-chart.component';
+import { ColumnMappingDialogComponent } from './components/column-mapping-dialog/column-mapping-dialog.component';
+import { SourceListComponent } from './components/source-list/source-list.component';
+import { GroupSelectorComponent } from './components/group-selector/group-selector.component';
+import { QualityReportComponent } from './components/quality-report/quality-report.component';
+import { UrlDialogComponent } from './components/url-dialog/url-dialog.component';
+import { RecentFilesComponent } from './components/recent-files/recent-files.component';
+import { CursorReadoutComponent } from './components/cursor-readout/cursor-readout.component';
+import { DerivedFieldDialogComponent } from './components/derived-field-dialog/derived-field-dialog.component';
+import { ViolationListComponent } from './components/violation-list/violation-list.component';
 
 @NgModule({
   declarations: [
@@ -26,7 +37,16 @@ import { StateChartComponent } from './components/state-chart/state-chart.compon
     ChartComponent,
     MapComponent,
     FieldSelectorComponent,
-    StateChartComponent
+    StateChartComponent,
+    ColumnMappingDialogComponent,
+    SourceListComponent,
+    GroupSelectorComponent,
+    QualityReportComponent,
+    UrlDialogComponent,
+    RecentFilesComponent,
+    CursorReadoutComponent,
+    DerivedFieldDialogComponent,
+    ViolationListComponent
   ],
   imports: [
     BrowserModule,
@@ -38,7 +58,9 @@ import { StateChartComponent } from './components/state-chart/state-chart.compon
     MatToolbarModule,
     MatSelectModule,
     MatFormFieldModule,
-    MatChipsModule
+    MatChipsModule,
+    MatProgressBarModule,
+    MatDialogModule
   ],
   providers: [],
   bootstrap: [AppComponent]
@@ -1,9 +1,57 @@
-import { Component, OnInit, OnDestroy, OnChanges, ElementRef, ViewChild, Input } from '@angular/core';
+import {
+  Component, OnInit, OnDestroy, OnChanges, SimpleChange, SimpleChanges, ElementRef, ViewChild, Input, Output, EventEmitter
+} from '@angular/core';
 import { Subject } from 'rxjs';
 import { takeUntil, throttleTime } from 'rxjs/operators';
 import * as d3 from 'd3';
-import { DataPoint, PlotField, TimeRange, HoverEvent } from '../../models/data.model';
+import {
+  ChartPanel, PlotField, TimeRange, HoverEvent, SeriesGrouping, DecimationMethod, YAxisSide, YAxisSettings,
+  SmoothingOverlay, FieldThreshold, ThresholdViolation, DEFAULT_DECIMATION_METHOD, DEFAULT_Y_AXIS_SETTINGS, DEFAULT_SMOOTHING_OVERLAY
+} from '../../models/data.model';
 import { SyncService } from '../../services/sync.service';
+import { GroupingService, splitIntoSeries } from '../../services/grouping.service';
+import { UnitService } from '../../services/unit.service';
+import { QueryService } from '../../services/query.service';
+import { ChartSettingsService } from '../../services/chart-settings.service';
+import { ColumnStore } from '../../utils/column-store';
+import { decimate } from '../../utils/decimation';
+import { attachZoomGestures } from '../../utils/zoom-gestures';
+import { YScale, convertYLimits, createYScale, resolveYDomain } from '../../utils/y-axis';
+import { computeOverlay, overlayLabel } from '../../utils/smoothing';
+import { THRESHOLD_COLORS, findViolations } from '../../utils/thresholds';
+import {
+  CANVAS_POINT_THRESHOLD, CanvasRect, clearCanvas, createPlotCanvas, drawArea, drawLine, drawRects
+} from '../../utils/canvas-renderer';
+
+// A smoothing overlay of one series, in recorded units
+interface SeriesOverlay {
+  overlay: SmoothingOverlay;
+  lines: Float64Array[]; // The smoothed values, or the envelope's lower and upper edge
+}
+
+interface ChartSeries {
+  field: PlotField;
+  axis: YAxisSide;
+  name: string | null; // Group value, or null for ungrouped data
+  color: string;
+  dash: number[]; // Tells the fields of a panel apart when groups share colors
+  data: ColumnStore;
+  decimated: number[]; // Row indices drawn when not zoomed
+  overlays: SeriesOverlay[];
+}
+
+const FIELD_DASHES = [[], [6, 3], [2, 2], [8, 3, 2, 3]];
+
+// Smoothed lines after the first are dashed to tell them apart
+const OVERLAY_DASHES = [[], [6, 3], [2, 2], [8, 3, 2, 3]];
+
+let nextClipId = 1;
+
+// The row of a series nearest the hovered time
+interface HoverRow {
+  series: ChartSeries;
+  index: number;
+}
 
 @Component({
   selector: 'app-chart',
@@ -12,47 +60,336 @@ import { SyncService } from '../../services/sync.service';
 })
 export class ChartComponent implements OnInit, OnDestroy, OnChanges {
   @ViewChild('chartContainer', { static: true }) chartContainer!: ElementRef;
-  @Input() data: DataPoint[] = [];
-  @Input() field!: PlotField;
+  @Input() data: ColumnStore = ColumnStore.empty();
+  @Input() panel!: ChartPanel;
+  @Input() addableFields: PlotField[] = []; // Line fields that could join this panel
   @Input() height: number = 150;
+  @Output() fieldAdded = new EventEmitter<PlotField>();
+  @Output() fieldSplit = new EventEmitter<PlotField>();
+  @Output() axisChange = new EventEmitter<{ field: PlotField, axis: YAxisSide }>();
+  @Output() yAxisChange = new EventEmitter<{ field: PlotField, settings: YAxisSettings }[]>();
+  @Output() overlaysChange = new EventEmitter<SmoothingOverlay[]>();
+  @Output() thresholdsChange = new EventEmitter<{ field: PlotField, thresholds: FieldThreshold[] }>();
+
+  units: { [fieldKey: string]: string | null } = {}; // Units the values are shown in
+  axisSides: YAxisSide[] = []; // Axes with fields on them
+  axisSettings: { [side in YAxisSide]: YAxisSettings } = { left: DEFAULT_Y_AXIS_SETTINGS, right: DEFAULT_Y_AXIS_SETTINGS };
+  showAxisSettings = false;
+  showSmoothingSettings = false;
+  showThresholdSettings = false;
+  violations: ThresholdViolation[] = [];
+  overlayLegend: { color: string, label: string, envelope: boolean }[] = [];
+  decimationNote: string | null = null; // Set while the drawn lines skip rows
 
   private destroy$ = new Subject<void>();
+  private detachZoomGestures: () => void = () => {};
   private mouseMoveSubject$ = new Subject<MouseEvent>();
   private svg: any;
+  private canvas!: HTMLCanvasElement;
   private margin = { top: 10, right: 15, bottom: 25, left: 40 };
   private width = 600;
   private actualHeight = 0;
   private xScale: any;
-  private yScale: any;
-  private line: any;
+  private yScales: { [side in YAxisSide]: YScale } = { left: d3.scaleLinear(), right: d3.scaleLinear() };
   private brush: any;
-  private zoom: any;
   private currentTimeRange: TimeRange | null = null;
-  private decimatedData: DataPoint[] = [];
+  private pinnedTime: Date | null = null;
+  private grouping: SeriesGrouping | null = null;
+  private series: ChartSeries[] = [];
+  private nullGaps: [number, number][] = []; // Epoch ms spans, found once per data or field change
   private isUpdatingZoom = false;
-
-  constructor(private syncService: SyncService) {}
+  private decimation: DecimationMethod = DEFAULT_DECIMATION_METHOD;
+  private converters: { [fieldKey: string]: (value: number) => number } = {};
+  private layout = ''; // Fields and axes the SVG was built for
+  private clipId = `chart-clip-${nextClipId++}`;
+
+  constructor(
+    private syncService: SyncService,
+    private groupingService: GroupingService,
+    private unitService: UnitService,
+    private queryService: QueryService,
+    private chartSettings: ChartSettingsService
+  ) {}
 
   ngOnInit(): void {
     this.actualHeight = this.height - this.margin.top - this.margin.bottom;
+    this.layout = this.layoutKey();
     this.initChart();
     this.subscribeToSync();
     this.setupThrottledMouseMove();
+    this.detachZoomGestures = attachZoomGestures({
+      element: this.chartContainer.nativeElement,
+      view: () => {
+        const [start, end] = this.xScale.domain();
+        return { range: { start, end }, left: this.margin.left, width: this.width };
+      },
+      bounds: () => this.data.length > 0 ? this.syncService.getDataBounds() : null,
+      zoomTo: (range, gesture) => range ? this.syncService.emitZoom(range, gesture) : this.syncService.clearZoom()
+    });
   }
 
   ngOnDestroy(): void {
+    this.detachZoomGestures();
     this.destroy$.next();
     this.destroy$.complete();
     this.mouseMoveSubject$.complete();
   }
 
-  ngOnChanges(): void {
-    if (this.svg && this.data.length > 0) {
-      this.decimatedData = this.decimateData(this.data);
-      this.updateChart();
+  ngOnChanges(changes: SimpleChanges): void {
+    this.updateUnits();
+    this.updateAxisSettings();
+    this.updateOverlayLegend();
+    if (!this.svg) {
+      return;
+    }
+    // Moving a field to the other axis or in or out of the panel changes the margins
+    const layout = this.layoutKey();
+    if (layout !== this.layout) {
+      this.layout = layout;
+      this.initChart();
+    } else if (this.data.length > 0) {
+      this.buildSeries();
+      // New data starts from the full view unless it spans the same times;
+      // other changes keep the zoom
+      if (this.currentTimeRange && !changes['data']) {
+        this.applyZoom(this.currentTimeRange);
+      } else {
+        this.updateChart();
+        this.restoreSyncedZoom(changes['data']);
+      }
+    }
+  }
+
+  axisOf(field: PlotField): YAxisSide {
+    return this.panel.axes[field.key] ?? 'left';
+  }
+
+  onAxisToggle(field: PlotField): void {
+    this.axisChange.emit({ field, axis: this.axisOf(field) === 'left' ? 'right' : 'left' });
+  }
+
+  onAxisSettingsChange(side: YAxisSide, changes: Partial<YAxisSettings>): void {
+    // Limits are typed in display units; each field keeps them in its recorded unit
+    const settings = { ...this.displaySettings(side), ...changes };
+    this.yAxisChange.emit(this.fieldsOn(side).map(field => ({
+      field,
+      settings: convertYLimits(settings, this.unitService.recordedConverterFor(field))
+    })));
+  }
+
+  /** An axis' settings with its fixed limits in display units. */
+  displaySettings(side: YAxisSide): YAxisSettings {
+    const first = this.fieldsOn(side)[0];
+    return first ? convertYLimits(this.axisSettings[side], this.converters[first.key]) : this.axisSettings[side];
+  }
+
+  onAxisLimitChange(side: YAxisSide, end: 'min' | 'max', event: Event): void {
+    const text = (event.target as HTMLInputElement).value.trim();
+    const value = text === '' ? NaN : Number(text);
+    this.onAxisSettingsChange(side, { [end]: isFinite(value) ? value : null });
+  }
+
+  onOverlayAdded(): void {
+    this.overlaysChange.emit([...this.panel.overlays, DEFAULT_SMOOTHING_OVERLAY]);
+  }
+
+  onOverlayChange(index: number, changes: Partial<SmoothingOverlay>): void {
+    this.overlaysChange.emit(this.panel.overlays.map((overlay, i) => i === index ? { ...overlay, ...changes } : overlay));
+  }
+
+  onOverlayWindowChange(index: number, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (isFinite(value) && value > 0) {
+      this.onOverlayChange(index, { window: value });
     }
   }
 
+  onOverlayRemoved(index: number): void {
+    this.overlaysChange.emit(this.panel.overlays.filter((_, i) => i !== index));
+  }
+
+  /** Add an upper warning limit, starting at the field's largest value. */
+  onThresholdAdded(field: PlotField): void {
+    const values = this.converted(field, this.data);
+    const max = d3.max(values.filter(value => !isNaN(value)));
+    const threshold: FieldThreshold = {
+      direction: 'upper',
+      severity: 'warning',
+      value: max === undefined ? 0 : this.unitService.recordedConverterFor(field)(Number(max.toPrecision(3)))
+    };
+    this.thresholdsChange.emit({ field, thresholds: [...field.thresholds ?? [], threshold] });
+  }
+
+  onThresholdChange(field: PlotField, index: number, changes: Partial<FieldThreshold>): void {
+    const thresholds = (field.thresholds ?? []).map((threshold, i) => i === index ? { ...threshold, ...changes } : threshold);
+    this.thresholdsChange.emit({ field, thresholds });
+  }
+
+  onThresholdValueChange(field: PlotField, index: number, event: Event): void {
+    const text = (event.target as HTMLInputElement).value.trim();
+    const value = Number(text);
+    if (text !== '' && isFinite(value)) {
+      this.onThresholdChange(field, index, { value: this.unitService.recordedConverterFor(field)(value) });
+    }
+  }
+
+  onThresholdRemoved(field: PlotField, index: number): void {
+    this.thresholdsChange.emit({ field, thresholds: (field.thresholds ?? []).filter((_, i) => i !== index) });
+  }
+
+  /** A threshold with its limit converted from the recorded to the display unit. */
+  displayThreshold(field: PlotField, threshold: FieldThreshold): FieldThreshold {
+    return { ...threshold, value: this.converters[field.key](threshold.value) };
+  }
+
+  private updateOverlayLegend(): void {
+    // With several fields, each overlay is listed once per field
+    const fields = this.panel.overlays.length > 0 ? this.panel.fields : [];
+    this.overlayLegend = fields.flatMap(field => this.panel.overlays.map(overlay => ({
+      color: field.color,
+      label: fields.length > 1 ? `${field.label}: ${overlayLabel(overlay)}` : overlayLabel(overlay),
+      envelope: overlay.method === 'envelope'
+    })));
+  }
+
+  /**
+   * Data re-published over the same time span, e.g. with a derived field
+   * added, keeps the view the charts are synced to.
+   */
+  private restoreSyncedZoom(dataChange: SimpleChange | undefined): void {
+    const zoom = this.syncService.getCurrentZoom();
+    if (!zoom || !dataChange || dataChange.firstChange || !dataChange.previousValue.hasSameTimeExtent(this.data)) {
+      return;
+    }
+    this.currentTimeRange = zoom;
+    this.applyZoom(zoom);
+  }
+
+  private updateAxisSettings(): void {
+    this.axisSides = (['left', 'right'] as YAxisSide[]).filter(side => this.fieldsOn(side).length > 0);
+    // An axis follows the settings of its first field
+    for (const side of ['left', 'right'] as YAxisSide[]) {
+      this.axisSettings[side] = this.fieldsOn(side)[0]?.yAxis ?? DEFAULT_Y_AXIS_SETTINGS;
+    }
+  }
+
+  private layoutKey(): string {
+    return this.panel.fields.map(field => `${field.key}:${this.axisOf(field)}`).join('|');
+  }
+
+  private updateUnits(): void {
+    this.units = {};
+    this.converters = {};
+    for (const field of this.panel.fields) {
+      this.units[field.key] = this.unitService.displayUnit(field);
+      this.converters[field.key] = this.unitService.converterFor(field);
+    }
+    this.svg?.select('.y-label-left').text(this.axisLabel('left'));
+    this.svg?.select('.y-label-right').text(this.axisLabel('right'));
+  }
+
+  private fieldsOn(side: YAxisSide): PlotField[] {
+    return this.panel.fields.filter(field => this.axisOf(field) === side);
+  }
+
+  private axisLabel(side: YAxisSide): string {
+    const fields = this.fieldsOn(side);
+    if (fields.length === 1) {
+      const unit = this.units[fields[0].key];
+      return unit ? `${fields[0].label} (${unit})` : fields[0].label;
+    }
+    // The legend names the fields; the axis only says what it measures
+    return [...new Set(fields.map(field => this.units[field.key]).filter(unit => unit))].join(', ');
+  }
+
+  /** A field's value in a row, converted to the display unit; NaN when missing. */
+  private valueOf(field: PlotField, data: ColumnStore, index: number): number {
+    return this.converters[field.key](data.number(field.key, index));
+  }
+
+  /**
+   * Smallest and largest value of the fields on one axis in display units,
+   * over a time range or all rows; null without values.
+   */
+  private valueExtent(side: YAxisSide, stores: ColumnStore[], timeRange: TimeRange | null = null): [number, number] | null {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const field of this.fieldsOn(side)) {
+      const convert = this.converters[field.key];
+      for (const data of stores) {
+        const stats = this.queryService.stats(data, field.key, timeRange);
+        if (stats) {
+          const [a, b] = [convert(stats.min), convert(stats.max)];
+          min = Math.min(min, a, b);
+          max = Math.max(max, a, b);
+        }
+      }
+    }
+    return min > max ? null : [min, max];
+  }
+
+  /** Set up both y-scales for a time range or all rows, following the axis settings. */
+  private updateValueDomains(stores: ColumnStore[], timeRange: TimeRange | null = null): void {
+    (['left', 'right'] as YAxisSide[]).forEach(side => {
+      const settings = this.displaySettings(side);
+      const visible = this.valueExtent(side, stores, timeRange);
+      const full = timeRange && settings.mode === 'full' ? this.valueExtent(side, [this.data]) : visible;
+      this.yScales[side] = createYScale(settings.scale)
+        .range([this.actualHeight, 0])
+        .domain(resolveYDomain(settings, visible, full));
+    });
+  }
+
+  private timeExtent(): [Date, Date] {
+    const [start, end] = this.data.timeExtent() ?? [0, 0];
+    return [new Date(start), new Date(end)];
+  }
+
+  private buildSeries(): void {
+    // One series per field and visible group, each decimated on its own
+    const groups = splitIntoSeries(this.data, this.grouping);
+    this.series = this.panel.fields.flatMap((field, fieldIndex) => groups.map(({ group, data }) => ({
+      field,
+      axis: this.axisOf(field),
+      name: group ? group.value : null,
+      color: group ? group.color : field.color,
+      dash: group ? FIELD_DASHES[fieldIndex % FIELD_DASHES.length] : [],
+      data,
+      decimated: this.decimateRows(field, data, 0, data.length),
+      overlays: this.panel.overlays.map(overlay => ({
+        overlay,
+        lines: computeOverlay(overlay, data.times, data.numbers(field.key) ?? new Float64Array(data.length).fill(NaN))
+      }))
+    })));
+    this.violations = this.findThresholdViolations();
+    this.nullGaps = this.findNullGaps();
+  }
+
+  /** Every run of rows beyond a field's thresholds, per series, in time order. */
+  private findThresholdViolations(): ThresholdViolation[] {
+    return this.series
+      .flatMap(series => {
+        const thresholds = (series.field.thresholds ?? []).map(threshold => this.displayThreshold(series.field, threshold));
+        const values = thresholds.length > 0 ? this.converted(series.field, series.data) : new Float64Array(0);
+        return thresholds.flatMap(threshold => findViolations(series.data.times, values, threshold)
+          .map(span => ({
+            field: series.field,
+            group: series.name,
+            threshold,
+            start: new Date(span.start),
+            end: new Date(span.end),
+            peak: span.peak
+          })));
+      })
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /** A field's column in display units; all missing if the store lacks it. */
+  private converted(field: PlotField, data: ColumnStore): Float64Array {
+    const values = data.numbers(field.key);
+    return values ? values.map(this.converters[field.key]) : new Float64Array(data.length).fill(NaN);
+  }
+
   private setupThrottledMouseMove(): void {
     this.mouseMoveSubject$
       .pipe(
@@ -64,30 +401,35 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       });
   }
 
-  private decimateData(data: DataPoint[]): DataPoint[] {
-    // More conservative decimation - keep more points for better zoom experience
-    if (data.length <= 2000) {
-      return data;
-    }
+  /**
+   * Rows [from, to) of a series thinned to about two points per pixel
+   * column with the selected shape-preserving method.
+   */
+  private decimateRows(field: PlotField, data: ColumnStore, from: number, to: number): number[] {
+    const values = data.numbers(field.key) ?? new Float64Array(data.length).fill(NaN);
+    return decimate(this.decimation, data.times, values, from, to, Math.max(4, Math.round(this.width) * 2));
+  }
 
-    // For very large datasets, keep every nth point to maintain ~2000 points
-    const targetPoints = 2000;
-    const step = Math.ceil(data.length / targetPoints);
-    const decimated: DataPoint[] = [];
-    
-    for (let i = 0; i < data.length; i += step) {
-      decimated.push(data[i]);
-    }
-    
-    // Always include the last point
-    if (decimated[decimated.length - 1] !== data[data.length - 1]) {
-      decimated.push(data[data.length - 1]);
-    }
-    
-    return decimated;
+  private updateDecimationNote(drawnRows: number[][], total: number): void {
+    const drawn = drawnRows.reduce((sum, rows) => sum + rows.length, 0);
+    const method = this.decimation === 'lttb' ? 'LTTB' : 'min/max';
+    this.decimationNote = drawn < total
+      ? `Decimated (${method}): ${drawn.toLocaleString()} of ${total.toLocaleString()} points`
+      : null;
   }
 
   private subscribeToSync(): void {
+    this.syncService.hover$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => this.showCursor(event ? event.dataPoint.datetime : null));
+
+    this.syncService.pinnedTime$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(time => {
+        this.pinnedTime = time;
+        this.updatePinLine();
+      });
+
     this.syncService.zoom$
       .pipe(takeUntil(this.destroy$))
       .subscribe(timeRange => {
@@ -98,16 +440,65 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
           this.resetZoom();
         }
       });
+
+    this.groupingService.grouping$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(grouping => {
+        this.grouping = grouping;
+        if (this.svg && this.data.length > 0) {
+          this.buildSeries();
+          if (this.currentTimeRange) {
+            this.applyZoom(this.currentTimeRange);
+          } else {
+            this.updateChart();
+          }
+        }
+      });
+
+    this.chartSettings.decimation$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(method => {
+        this.decimation = method;
+        if (this.svg && this.data.length > 0) {
+          this.buildSeries();
+          if (this.currentTimeRange) {
+            this.applyZoom(this.currentTimeRange);
+          } else {
+            this.updateChart();
+          }
+        }
+      });
+
+    this.unitService.unitSystem$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.updateUnits();
+        // Peaks and limits are listed in display units
+        this.violations = this.findThresholdViolations();
+        if (this.svg && this.data.length > 0) {
+          if (this.currentTimeRange) {
+            this.applyZoom(this.currentTimeRange);
+          } else {
+            this.updateChart();
+          }
+        }
+      });
   }
 
   private initChart(): void {
     const element = this.chartContainer.nativeElement;
+    d3.select(element).selectAll('*').remove();
+    this.margin.right = this.fieldsOn('right').length > 0 ? 45 : 15;
     this.width = element.offsetWidth - this.margin.left - this.margin.right;
 
+    // Dense data is drawn on a canvas under the SVG
+    this.canvas = createPlotCanvas(element, this.margin.left, this.margin.top, this.width, this.actualHeight);
+
     const svgElement = d3.select(element)
       .append('svg')
       .attr('width', this.width + this.margin.left + this.margin.right)
       .attr('height', this.height)
+      .style('position', 'relative')
       .style('pointer-events', 'all');
     
     this.svg = svgElement
@@ -118,36 +509,15 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
     this.xScale = d3.scaleTime()
       .range([0, this.width]);
 
-    this.yScale = d3.scaleLinear()
-      .range([this.actualHeight, 0]);
-
-    // Initialize line generator
-    this.line = d3.line<DataPoint>()
-      .x(d => this.xScale(d.datetime))
-      .y(d => {
-        const value = d[this.field.key] as number;
-        if (value === undefined || value === null || isNaN(value)) {
-          return 0;
-        }
-        return this.yScale(value);
-      })
-      .curve(d3.curveMonotoneX)
-      .defined((d, i, data) => {
-        // Ensure the point is within the x-scale domain to prevent extending beyond boundaries
-        const x = this.xScale(d.datetime);
-        const y = d[this.field.key] as number;
-        
-        // Point is defined if:
-        // 1. It's within the x-scale domain
-        // 2. It has a valid numeric value (not null, undefined, or NaN)
-        return x >= 0 && x <= this.width && !isNaN(x) && 
-               y !== null && y !== undefined && !isNaN(y);
-      });
+    this.yScales = {
+      left: createYScale(this.axisSettings.left.scale).range([this.actualHeight, 0]),
+      right: createYScale(this.axisSettings.right.scale).range([this.actualHeight, 0])
+    };
 
     // Add clipping path to prevent line from overflowing during zoom
     this.svg.append('defs')
       .append('clipPath')
-      .attr('id', `clip-${this.field.key}`)
+      .attr('id', this.clipId)
       .append('rect')
       .attr('width', this.width)
       .attr('height', this.actualHeight);
@@ -158,17 +528,30 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .attr('transform', `translate(0,${this.actualHeight})`);
 
     this.svg.append('g')
-      .attr('class', 'y-axis');
+      .attr('class', 'y-axis y-axis-left');
+
+    this.svg.append('g')
+      .attr('class', 'y-axis y-axis-right')
+      .attr('transform', `translate(${this.width},0)`);
 
     // Add axis labels
     this.svg.append('text')
-      .attr('class', 'y-label')
+      .attr('class', 'y-label y-label-left')
       .attr('transform', 'rotate(-90)')
       .attr('y', 0 - this.margin.left)
       .attr('x', 0 - (this.actualHeight / 2))
       .attr('dy', '1em')
       .style('text-anchor', 'middle')
-      .text(this.field.label);
+      .text(this.axisLabel('left'));
+
+    this.svg.append('text')
+      .attr('class', 'y-label y-label-right')
+      .attr('transform', 'rotate(90)')
+      .attr('y', 0 - this.width - this.margin.right)
+      .attr('x', this.actualHeight / 2)
+      .attr('dy', '1em')
+      .style('text-anchor', 'middle')
+      .text(this.axisLabel('right'));
 
     // Add centerline (zero line) for better value distinction
     this.svg.append('line')
@@ -178,7 +561,13 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .style('stroke-dasharray', '2,2')
       .style('opacity', 0.7);
 
-    // Add hover line and dot
+    // Add pinned cursor, hover line and dots
+    this.svg.append('line')
+      .attr('class', 'pin-line')
+      .style('stroke', '#ff9800')
+      .style('stroke-width', 1.5)
+      .style('opacity', 0);
+
     this.svg.append('line')
       .attr('class', 'hover-line')
       .style('stroke', '#999')
@@ -186,11 +575,8 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .style('stroke-dasharray', '3,3')
       .style('opacity', 0);
 
-    this.svg.append('circle')
-      .attr('class', 'hover-dot')
-      .attr('r', 4)
-      .style('fill', this.field.color)
-      .style('opacity', 0);
+    this.svg.append('g')
+      .attr('class', 'hover-dots');
 
           // Add tooltip for showing values
       const tooltipGroup = this.svg.append('g')
@@ -212,13 +598,9 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
         .style('text-anchor', 'middle')
         .style('pointer-events', 'none');
 
-      tooltipGroup.append('text')
-        .attr('class', 'tooltip-value')
-        .style('fill', 'white')
-        .style('font-size', '12px')
-        .style('font-weight', 'bold')
-        .style('text-anchor', 'middle')
-        .style('pointer-events', 'none');
+      // One value line per series, created on hover
+      tooltipGroup.append('g')
+        .attr('class', 'tooltip-values');
 
     // Add hover overlay (but disable pointer events when brushing)
     const hoverOverlay = this.svg.append('rect')
@@ -237,6 +619,8 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
     // Add brush for zooming (on top)
     this.brush = d3.brushX()
       .extent([[0, 0], [this.width, this.actualHeight]])
+      // Shift-drag pans instead
+      .filter((event: MouseEvent) => !event.ctrlKey && !event.shiftKey && !event.button)
       .on('start', () => {
         // Disable hover when brushing starts
         this.svg.select('.hover-overlay').style('pointer-events', 'none');
@@ -254,8 +638,11 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .call(this.brush);
 
     if (this.data.length > 0) {
-      this.decimatedData = this.decimateData(this.data);
+      this.buildSeries();
       this.updateChart();
+      if (this.currentTimeRange) {
+        this.applyZoom(this.currentTimeRange);
+      }
     }
   }
 
@@ -264,22 +651,15 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       return;
     }
 
-    if (!this.decimatedData || this.decimatedData.length === 0) {
+    if (this.series.length === 0) {
       return;
     }
 
     // Update scales using full data for extent but decimated data for drawing
-    const timeExtent = d3.extent(this.data, d => d.datetime) as [Date, Date];
-    
-    // Filter out null values when calculating value extent
-    const validValues = this.data
-      .map(d => d[this.field.key] as number)
-      .filter(v => v !== null && v !== undefined && !isNaN(v));
-    
-    const valueExtent = d3.extent(validValues) as [number, number];
+    const timeExtent = this.timeExtent();
 
     this.xScale.domain(timeExtent);
-    this.yScale.domain(valueExtent);
+    this.updateValueDomains([this.data]);
 
     // Update axes with dynamic time formatting
     const timeSpan = timeExtent[1].getTime() - timeExtent[0].getTime();
@@ -298,52 +678,179 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .call(d3.axisBottom(this.xScale)
         .tickFormat(timeFormat));
 
-    this.svg.select('.y-axis')
-      .call(d3.axisLeft(this.yScale));
+    this.updateYAxes();
 
     // Update centerline visibility and position
     this.updateCenterline();
 
-    // Update or create line path with clipping using decimated data
+    // Redraw the lines using decimated data
+    this.renderLines(this.series.map(series => series.decimated));
+    this.updateDecimationNote(this.series.map(series => series.decimated),
+      this.series.reduce((total, series) => total + series.data.length, 0));
+    this.updatePinLine();
+  }
+
+  /**
+   * Draw the null gaps, threshold limits and violations, and one line per
+   * series with its smoothing overlays on top. Up to CANVAS_POINT_THRESHOLD
+   * points and bands they are SVG elements; beyond that they are painted on
+   * the canvas, which stays fast with many charts open. The few limit lines
+   * always stay in the SVG.
+   */
+  private renderLines(seriesRows: number[][]): void {
+    // Line group with clipping to prevent lines extending beyond the axes
     let lineGroup = this.svg.select('.line-group');
     if (lineGroup.empty()) {
       lineGroup = this.svg.append('g')
         .attr('class', 'line-group')
-        .attr('clip-path', `url(#clip-${this.field.key})`);
+        .attr('clip-path', `url(#${this.clipId})`);
+    }
+    lineGroup.selectAll('.line').remove();
+    lineGroup.selectAll('.band').remove();
+    lineGroup.selectAll('.threshold').remove();
+    clearCanvas(this.canvas);
+
+    const bands = [...this.findGapBands(), ...this.findViolationBands()];
+    const points = seriesRows.reduce((total, rows, index) =>
+      total + rows.length * (1 + this.series[index].overlays.length), bands.length);
+    this.drawThresholds(lineGroup);
+    if (points > CANVAS_POINT_THRESHOLD) {
+      drawRects(this.canvas, bands);
+      this.drawLines(null, seriesRows);
+    } else {
+      this.drawBands(lineGroup, bands);
+      this.drawLines(lineGroup, seriesRows);
     }
+  }
 
-    const linePathData = this.line(this.decimatedData);
+  /**
+   * Draw each series: envelopes under the line, then the line, faded when
+   * it has overlays, then the smoothed lines. Paints on the canvas when
+   * lineGroup is null.
+   */
+  private drawLines(lineGroup: any, seriesRows: number[][]): void {
+    this.series.forEach((series, index) => {
+      const rows = seriesRows[index];
+      const envelopes = series.overlays.filter(({ overlay }) => overlay.method === 'envelope');
+      const smoothed = series.overlays.filter(({ overlay }) => overlay.method !== 'envelope');
+
+      envelopes.forEach(({ lines }) => {
+        const area = this.createEnvelope(series, lines[0], lines[1]);
+        const fill = this.fadedColor(series.color, 0.15);
+        if (lineGroup) {
+          lineGroup.append('path')
+            .datum(rows)
+            .attr('class', 'line')
+            .attr('d', area)
+            .style('fill', fill)
+            .style('stroke', 'none');
+        } else {
+          drawArea(this.canvas, area, rows, fill);
+        }
+      });
 
-    // Clear existing lines and create new one
-    lineGroup.selectAll('.line').remove();
-    lineGroup.selectAll('.null-gap').remove();
-    
-    // Draw null data gaps as red background areas
-    this.drawNullGaps(lineGroup);
-    
+      const color = series.overlays.length > 0 ? this.fadedColor(series.color, 0.35) : series.color;
+      this.strokeLine(lineGroup, this.createLine(series), rows, color, series.dash);
+      smoothed.forEach(({ lines }, i) =>
+        this.strokeLine(lineGroup, this.createLine(series, lines[0]), rows, series.color, OVERLAY_DASHES[i % OVERLAY_DASHES.length]));
+    });
+  }
+
+  private strokeLine(lineGroup: any, line: d3.Line<number>, rows: number[], color: string, dash: number[]): void {
+    if (!lineGroup) {
+      drawLine(this.canvas, line, rows, color, 2, dash);
+      return;
+    }
     lineGroup.append('path')
-      .datum(this.decimatedData)
+      .datum(rows)
       .attr('class', 'line')
-      .attr('d', this.line)
+      .attr('d', line)
       .style('fill', 'none')
-      .style('stroke', this.field.color)
-      .style('stroke-width', 2);
+      .style('stroke', color)
+      .style('stroke-width', 2)
+      .style('stroke-dasharray', dash.join(',') || null);
+  }
+
+  private fadedColor(color: string, opacity: number): string {
+    return d3.color(color)?.copy({ opacity }).formatRgb() ?? color;
+  }
+
+  /** Display value of a series row, from the field or from overlay values in recorded units. */
+  private seriesValue(series: ChartSeries, index: number, values: Float64Array | null = null): number {
+    return values ? this.converters[series.field.key](values[index]) : this.valueOf(series.field, series.data, index);
+  }
+
+  /** Area between an envelope's edges, over row indices of one series. */
+  private createEnvelope(series: ChartSeries, lower: Float64Array, upper: Float64Array): d3.Area<number> {
+    const yScale = this.yScales[series.axis];
+    return d3.area<number>()
+      .x(index => this.xScale(series.data.time(index)))
+      .y0(index => yScale(this.seriesValue(series, index, lower)))
+      .y1(index => yScale(this.seriesValue(series, index, upper)))
+      .curve(d3.curveMonotoneX)
+      .defined(index => {
+        const x = this.xScale(series.data.time(index));
+        return x >= 0 && x <= this.width && isFinite(yScale(this.seriesValue(series, index, lower)))
+          && isFinite(yScale(this.seriesValue(series, index, upper)));
+      });
+  }
+
+  /**
+   * Line generator over row indices of one series, on the series' axis.
+   * Draws the field's values, or overlay values when given.
+   */
+  private createLine(series: ChartSeries, values: Float64Array | null = null): d3.Line<number> {
+    const { data } = series;
+    const yScale = this.yScales[series.axis];
+    return d3.line<number>()
+      .x(index => this.xScale(data.time(index)))
+      .y(index => {
+        const value = this.seriesValue(series, index, values);
+        return isNaN(value) ? 0 : yScale(value);
+      })
+      .curve(d3.curveMonotoneX)
+      .defined(index => {
+        // Ensure the point is within the x-scale domain to prevent extending beyond boundaries
+        const x = this.xScale(data.time(index));
+        
+        // Point is defined if:
+        // 1. It's within the x-scale domain
+        // 2. It has a valid numeric value (not missing or NaN)
+        // 3. It can be placed on the axis (log axes skip zero and below)
+        return x >= 0 && x <= this.width && !isNaN(x) && isFinite(yScale(this.seriesValue(series, index, values)));
+      });
+  }
+
+  /** Draw the axes that have fields on them and hide the other. */
+  private updateYAxes(): void {
+    (['left', 'right'] as YAxisSide[]).forEach(side => {
+      const fields = this.fieldsOn(side);
+      const axisGroup = this.svg.select(`.y-axis-${side}`);
+      if (fields.length === 0) {
+        axisGroup.selectAll('*').remove();
+        return;
+      }
+      const axis = side === 'left'
+        ? d3.axisLeft<d3.NumberValue>(this.yScales.left)
+        : d3.axisRight<d3.NumberValue>(this.yScales.right);
+      // Date fields hold epoch milliseconds
+      axisGroup.call(fields.every(field => field.dataType === 'date')
+        ? axis.tickFormat(value => d3.timeFormat('%m/%d/%y')(new Date(+value)))
+        : axis);
+    });
   }
 
   private updateCenterline(): void {
-    // Filter out null values when calculating value extent
-    const validValues = this.data
-      .map(d => d[this.field.key] as number)
-      .filter(v => v !== null && v !== undefined && !isNaN(v));
-    
-    const valueExtent = d3.extent(validValues) as [number, number];
-    const hasNegativeValues = valueExtent[0] < 0;
-    const hasPositiveValues = valueExtent[1] > 0;
+    // The zero line belongs to the left axis unless every field is on the right
+    const side: YAxisSide = this.fieldsOn('left').length > 0 ? 'left' : 'right';
+    const [min, max] = this.yScales[side].domain();
+    const hasNegativeValues = min < 0;
+    const hasPositiveValues = max > 0;
     
     const centerline = this.svg.select('.centerline');
     if (hasNegativeValues && hasPositiveValues) {
       // Show centerline when data crosses zero
-      const centerlineY = this.yScale(0);
+      const centerlineY = this.yScales[side](0);
       centerline
         .attr('x1', 0)
         .attr('x2', this.width)
@@ -356,57 +863,117 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
     }
   }
 
-  private drawNullGaps(lineGroup: any): void {
-    const nullGaps = this.findNullGaps();
-    
-    nullGaps.forEach(gap => {
-      const x1 = this.xScale(gap.start);
-      const x2 = this.xScale(gap.end);
-      
-      if (x1 < this.width && x2 > 0) {
+  private drawBands(lineGroup: any, bands: CanvasRect[]): void {
+    bands.forEach(band => {
+      lineGroup.append('rect')
+        .attr('class', 'band')
+        .attr('x', band.x)
+        .attr('y', band.y)
+        .attr('width', band.width)
+        .attr('height', band.height)
+        .style('fill', band.fill)
+        .style('stroke', band.stroke)
+        .style('stroke-width', 1)
+        .style('pointer-events', 'none');
+    });
+  }
+
+  /** Null gaps within the plot area as red background bands. */
+  private findGapBands(): CanvasRect[] {
+    return this.nullGaps
+      .map(([start, end]) => [this.xScale(start), this.xScale(end)])
+      .filter(([x1, x2]) => x1 < this.width && x2 > 0)
+      .map(([x1, x2]) => ({
+        x: Math.max(0, x1),
+        y: 0,
+        width: Math.min(this.width, x2) - Math.max(0, x1),
+        height: this.actualHeight,
+        fill: 'rgba(255, 0, 0, 0.1)',
+        stroke: 'rgba(255, 0, 0, 0.3)'
+      }));
+  }
+
+  /** Violations within the plot area as bands in their severity's color, at least 2px wide. */
+  private findViolationBands(): CanvasRect[] {
+    return this.violations
+      .map(violation => ({ violation, x1: this.xScale(violation.start), x2: this.xScale(violation.end) + 2 }))
+      .filter(({ x1, x2 }) => x1 < this.width && x2 > 0)
+      .map(({ violation, x1, x2 }) => ({
+        x: Math.max(0, x1),
+        y: 0,
+        width: Math.min(this.width, x2) - Math.max(0, x1),
+        height: this.actualHeight,
+        fill: this.fadedColor(THRESHOLD_COLORS[violation.threshold.severity], 0.15)
+      }));
+  }
+
+  /** A dashed line at each threshold and a faint band over the values beyond it. */
+  private drawThresholds(lineGroup: any): void {
+    for (const field of this.panel.fields) {
+      const yScale = this.yScales[this.axisOf(field)];
+      for (const threshold of field.thresholds ?? []) {
+        const y = yScale(this.displayThreshold(field, threshold).value);
+        if (!isFinite(y)) {
+          continue;
+        }
+        const color = THRESHOLD_COLORS[threshold.severity];
+        const edge = Math.min(Math.max(y, 0), this.actualHeight);
+        const [top, bottom] = threshold.direction === 'upper' ? [0, edge] : [edge, this.actualHeight];
         lineGroup.append('rect')
-          .attr('class', 'null-gap')
-          .attr('x', Math.max(0, x1))
-          .attr('y', 0)
-          .attr('width', Math.min(this.width, x2) - Math.max(0, x1))
-          .attr('height', this.actualHeight)
-          .style('fill', 'rgba(255, 0, 0, 0.1)')
-          .style('stroke', 'rgba(255, 0, 0, 0.3)')
+          .attr('class', 'threshold')
+          .attr('x', 0)
+          .attr('y', top)
+          .attr('width', this.width)
+          .attr('height', bottom - top)
+          .style('fill', this.fadedColor(color, 0.06))
+          .style('pointer-events', 'none');
+        lineGroup.append('line')
+          .attr('class', 'threshold')
+          .attr('x1', 0)
+          .attr('x2', this.width)
+          .attr('y1', y)
+          .attr('y2', y)
+          .style('stroke', color)
           .style('stroke-width', 1)
+          .style('stroke-dasharray', '4,3')
           .style('pointer-events', 'none');
       }
-    });
+    }
   }
 
-  private findNullGaps(): Array<{start: Date, end: Date}> {
-    const gaps: Array<{start: Date, end: Date}> = [];
-    let gapStart: Date | null = null;
-    
-    for (let i = 0; i < this.data.length; i++) {
-      const point = this.data[i];
-      const value = point[this.field.key] as number;
-      const isNull = value === null || value === undefined || isNaN(value);
-      
+  /** Stretches of rows where every field of the panel is missing, as epoch ms. */
+  private findNullGaps(): [number, number][] {
+    const gaps: [number, number][] = [];
+    const columns = this.panel.fields.map(field => this.data.numbers(field.key));
+    const times = this.data.times;
+    let gapStart: number | null = null;
+
+    for (let i = 0; i < times.length; i++) {
+      const isNull = columns.every(values => !values || isNaN(values[i]));
+
       if (isNull && gapStart === null) {
-        // Start of a null gap
-        gapStart = point.datetime;
+        gapStart = times[i];
       } else if (!isNull && gapStart !== null) {
-        // End of a null gap
-        gaps.push({ start: gapStart, end: point.datetime });
+        gaps.push([gapStart, times[i]]);
         gapStart = null;
       }
     }
-    
+
     // Handle case where data ends with null values
-    if (gapStart !== null && this.data.length > 0) {
-      gaps.push({ start: gapStart, end: this.data[this.data.length - 1].datetime });
+    if (gapStart !== null) {
+      gaps.push([gapStart, times[times.length - 1]]);
     }
-    
+
     return gaps;
   }
 
   private onBrush(event: any): void {
     if (!event.selection) {
+      // A click without a drag pins the cursor there
+      if (event.sourceEvent) {
+        const [x] = d3.pointer(event.sourceEvent, this.svg.node());
+        this.syncService.pinCursor(this.xScale.invert(x));
+      }
       return;
     }
 
@@ -431,8 +998,6 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
     const rect = svgElement.getBoundingClientRect();
     const mouseX = event.clientX - rect.left - this.margin.left;
     
-    // console.log('Mouse X relative to chart:', mouseX, 'chart width:', this.width);
-    
     // Check if mouse is within chart bounds
     if (mouseX < 0 || mouseX > this.width) {
       return;
@@ -440,99 +1005,166 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
     
     const date = this.xScale.invert(mouseX);
 
-    // Find closest data point from FULL dataset for accurate hover
-    const bisect = d3.bisector((d: DataPoint) => d.datetime).left;
-    const index = bisect(this.data, date);
-    
-    let closestPoint: DataPoint;
-    if (index === 0) {
-      closestPoint = this.data[0];
-    } else if (index === this.data.length) {
-      closestPoint = this.data[this.data.length - 1];
-    } else {
-      const left = this.data[index - 1];
-      const right = this.data[index];
-      closestPoint = (date.getTime() - left.datetime.getTime()) > (right.datetime.getTime() - date.getTime()) ? right : left;
+    const hoverPoints = this.hoverRows(date);
+    if (hoverPoints.length === 0) {
+      return;
     }
 
-    if (closestPoint) {
-      const x = this.xScale(closestPoint.datetime);
-      const y = this.yScale(closestPoint[this.field.key] as number);
-
-      // Update hover elements
-      this.svg.select('.hover-line')
-        .attr('x1', x)
-        .attr('x2', x)
-        .attr('y1', 0)
-        .attr('y2', this.actualHeight)
-        .style('opacity', 1);
-
-      this.svg.select('.hover-dot')
-        .attr('cx', x)
-        .attr('cy', y)
-        .style('opacity', 1);
-
-      // Update tooltip
-      const value = closestPoint[this.field.key] as number;
-      const formattedValue = typeof value === 'number' ? value.toFixed(2) : value;
-      const formattedDateTime = closestPoint.datetime.toLocaleString();
-      
-      // Update tooltip text elements
-      const tooltip = this.svg.select('.tooltip');
-      const datetimeElement = tooltip.select('.tooltip-datetime');
-      const valueElement = tooltip.select('.tooltip-value');
-      
-      datetimeElement.text(formattedDateTime);
-      valueElement.text(`${this.field.label}: ${formattedValue}`);
-      
-      // Get text dimensions for tooltip background
-      const datetimeBBox = (datetimeElement.node() as any)?.getBBox();
-      const valueBBox = (valueElement.node() as any)?.getBBox();
-      
-      if (datetimeBBox && valueBBox) {
-        const padding = 8;
-        const lineHeight = 16;
-        const maxWidth = Math.max(datetimeBBox.width, valueBBox.width);
-        const totalHeight = lineHeight * 2;
-        
-        const tooltipBg = tooltip.select('.tooltip-bg');
-        tooltipBg
-          .attr('width', maxWidth + padding * 2)
-          .attr('height', totalHeight + padding * 2)
-          .attr('x', -maxWidth / 2 - padding)
-          .attr('y', -totalHeight - padding);
-        
-        // Position text elements
-        datetimeElement
-          .attr('x', 0)
-          .attr('y', -totalHeight + lineHeight - padding);
-        
-        valueElement
-          .attr('x', 0)
-          .attr('y', -padding);
+    // The row nearest in time drives the hover line and the synced views
+    const distance = (hover: HoverRow) => Math.abs(hover.series.data.time(hover.index) - date.getTime());
+    const closest = hoverPoints.reduce((best, hover) => distance(hover) < distance(best) ? hover : best);
+    const closestPoint = closest.series.data.row(closest.index);
+
+    const x = this.xScale(closestPoint.datetime);
+    const valueAt = (hover: HoverRow) => this.hoverValue(hover);
+
+    // The hover line and dots are drawn from hover$, like on every other chart
+
+    // Update tooltip: the datetime, then one value line per series and overlay
+    const formatValue = (hover: HoverRow, value = valueAt(hover)) => {
+      if (isNaN(value)) {
+        return null;
       }
-      
-      // Position tooltip above the point
-      const tooltipX = Math.min(Math.max(x, 50), this.width - 50); // Keep within bounds
-      const tooltipY = Math.max(y - 20, 20); // Position above point, but not off top
-      
-      tooltip
-        .attr('transform', `translate(${tooltipX}, ${tooltipY})`)
-        .style('opacity', 1);
-
-      // Emit hover event
-      const hoverEvent: HoverEvent = {
-        dataPoint: closestPoint,
-        x: event.clientX,
-        y: event.clientY
-      };
-      this.syncService.emitHover(hoverEvent);
+      const { field } = hover.series;
+      if (field.dataType === 'date') {
+        return new Date(value).toLocaleString();
+      }
+      const unit = this.units[field.key];
+      return unit ? `${value.toFixed(2)} ${unit}` : value.toFixed(2);
+    };
+    const seriesLabel = (series: ChartSeries) => {
+      if (series.name === null) {
+        return series.field.label;
+      }
+      return this.panel.fields.length > 1 ? `${series.name} ${series.field.label}` : series.name;
+    };
+    const overlayValue = (hover: HoverRow, lines: Float64Array[]) => lines
+      .map(values => formatValue(hover, this.seriesValue(hover.series, hover.index, values)))
+      .join(' – ');
+    const valueLines = hoverPoints.flatMap(hover => [
+      { text: `${seriesLabel(hover.series)}: ${formatValue(hover)}`, color: hover.series.color },
+      ...hover.series.overlays.map(({ overlay, lines }) => ({
+        text: `${seriesLabel(hover.series)} ${overlayLabel(overlay)}: ${overlayValue(hover, lines)}`,
+        color: hover.series.color
+      }))
+    ]);
+
+    const tooltip = this.svg.select('.tooltip');
+    const datetimeElement = tooltip.select('.tooltip-datetime');
+    datetimeElement.text(closestPoint.datetime.toLocaleString());
+
+    const valueElements = tooltip.select('.tooltip-values')
+      .selectAll('text')
+      .data(valueLines)
+      .join('text')
+      .style('fill', (line: { color: string }) => valueLines.length > 1 ? line.color : 'white')
+      .style('font-size', '12px')
+      .style('font-weight', 'bold')
+      .style('text-anchor', 'middle')
+      .style('pointer-events', 'none')
+      .text((line: { text: string }) => line.text);
+
+    // Get text dimensions for tooltip background
+    const padding = 8;
+    const lineHeight = 16;
+    const widths = [datetimeElement.node(), ...valueElements.nodes()]
+      .map((node: any) => node?.getBBox()?.width ?? 0);
+    const maxWidth = Math.max(...widths);
+    const totalHeight = lineHeight * (valueLines.length + 1);
+
+    tooltip.select('.tooltip-bg')
+      .attr('width', maxWidth + padding * 2)
+      .attr('height', totalHeight + padding * 2)
+      .attr('x', -maxWidth / 2 - padding)
+      .attr('y', -totalHeight - padding);
+
+    // Position text elements
+    datetimeElement
+      .attr('x', 0)
+      .attr('y', -totalHeight + lineHeight - padding);
+
+    valueElements
+      .attr('x', 0)
+      .attr('y', (_: string, i: number) => -totalHeight + lineHeight * (i + 2) - padding);
+
+    // Position tooltip above the highest hovered point
+    const topY = Math.min(...hoverPoints.map(hover => this.hoverY(hover)).filter(isFinite), this.actualHeight);
+    const tooltipX = Math.min(Math.max(x, 50), this.width - 50); // Keep within bounds
+    const tooltipY = Math.max(topY - 20, totalHeight + padding); // Position above point, but not off top
+    
+    tooltip
+      .attr('transform', `translate(${tooltipX}, ${tooltipY})`)
+      .style('opacity', 1);
+
+    // Emit hover event
+    const hoverEvent: HoverEvent = {
+      dataPoint: closestPoint,
+      x: event.clientX,
+      y: event.clientY
+    };
+    this.syncService.emitHover(hoverEvent);
+  }
+
+  /** The nearest row of each series to a time, from the full data for accurate hover. */
+  private hoverRows(date: Date): HoverRow[] {
+    return this.series
+      .map(series => ({ series, index: this.queryService.nearest(series.data, date) }))
+      .filter(hover => hover.index >= 0);
+  }
+
+  private hoverValue(hover: HoverRow): number {
+    return this.valueOf(hover.series.field, hover.series.data, hover.index);
+  }
+
+  private hoverY(hover: HoverRow): number {
+    return this.yScales[hover.series.axis](this.hoverValue(hover));
+  }
+
+  /** Draw the shared cursor: a line at the hovered time and a dot on each series' nearest row. */
+  private showCursor(time: Date | null): void {
+    if (!this.svg) {
+      return;
+    }
+    const x = time && this.data.length > 0 ? this.xScale(time) : NaN;
+    if (!(x >= 0 && x <= this.width)) {
+      this.svg.select('.hover-line').style('opacity', 0);
+      this.svg.select('.hover-dots').selectAll('circle').remove();
+      return;
+    }
+
+    this.svg.select('.hover-line')
+      .attr('x1', x)
+      .attr('x2', x)
+      .attr('y1', 0)
+      .attr('y2', this.actualHeight)
+      .style('opacity', 1);
+
+    this.svg.select('.hover-dots')
+      .selectAll('circle')
+      .data(this.hoverRows(time!).filter(hover => isFinite(this.hoverY(hover))))
+      .join('circle')
+      .attr('r', 4)
+      .attr('cx', (hover: HoverRow) => this.xScale(hover.series.data.time(hover.index)))
+      .attr('cy', (hover: HoverRow) => this.hoverY(hover))
+      .style('fill', (hover: HoverRow) => hover.series.color)
+      .style('opacity', 1);
+  }
+
+  private updatePinLine(): void {
+    const x = this.pinnedTime && this.svg ? this.xScale(this.pinnedTime) : NaN;
+    if (!(x >= 0 && x <= this.width)) {
+      this.svg?.select('.pin-line').style('opacity', 0);
+      return;
     }
+    this.svg.select('.pin-line')
+      .attr('x1', x)
+      .attr('x2', x)
+      .attr('y1', 0)
+      .attr('y2', this.actualHeight)
+      .style('opacity', 1);
   }
 
   private onMouseLeave(): void {
-    this.svg.select('.hover-line').style('opacity', 0);
-    this.svg.select('.hover-dot').style('opacity', 0);
     this.svg.select('.tooltip').style('opacity', 0);
     this.syncService.emitHover(null);
   }
@@ -578,68 +1210,23 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
         .call(d3.axisBottom(this.xScale)
           .tickFormat(timeFormat));
 
-      // Filter data to visible range - no buffer to prevent extending beyond axis
-      const visibleData = this.data.filter(d => 
-        d.datetime >= timeRange.start && d.datetime <= timeRange.end
-      );
-
-      // Use full resolution data when zoomed in for better granularity
-      // Simple approach: only decimate if we have too many visible points
-      let finalData = visibleData;
-      
-      // Only decimate if we have more than 1000 visible points
-      if (visibleData.length > 1000) {
-        // Use a simpler decimation for zoom
-        const step = Math.ceil(visibleData.length / 1000);
-        finalData = [];
-        for (let i = 0; i < visibleData.length; i += step) {
-          finalData.push(visibleData[i]);
-        }
-        // Always include last point
-        if (finalData[finalData.length - 1] !== visibleData[visibleData.length - 1]) {
-          finalData.push(visibleData[visibleData.length - 1]);
-        }
-      }
+      // Limit each series to the visible range - no buffer to prevent extending beyond axis
+      const visibleRows = this.series.map(series => this.queryService.rows(series.data, timeRange));
+      const finalData = this.series.map((series, index) => this.decimateRows(series.field, series.data, ...visibleRows[index]));
 
-      // Update line with final data - force redraw by removing and recreating
-      const lineGroup = this.svg.select('.line-group');
+      // Update the y-scale domains for the visible data
+      this.updateValueDomains(this.series.map(series => series.data), timeRange);
       
-      // Update the y-scale domain for the visible data, filtering out null values
-      const validVisibleValues = finalData
-        .map(d => d[this.field.key] as number)
-        .filter(v => v !== null && v !== undefined && !isNaN(v));
-      
-      const visibleValueExtent = d3.extent(validVisibleValues) as [number, number];
-      this.yScale.domain(visibleValueExtent);
-      
-      // Update y-axis
-      this.svg.select('.y-axis')
-        .call(d3.axisLeft(this.yScale));
+      // Update y-axes
+      this.updateYAxes();
       
       // Update centerline position for zoomed view
       this.updateCenterline();
       
-      // Ensure line group has proper clipping to prevent extending beyond boundaries
-      if (!lineGroup.attr('clip-path')) {
-        lineGroup.attr('clip-path', `url(#clip-${this.field.key})`);
-      }
-      
-      lineGroup.selectAll('.line').remove();
-      lineGroup.selectAll('.null-gap').remove();
-      
-      // Draw null data gaps as red background areas
-      this.drawNullGaps(lineGroup);
-      
-      const newPath = lineGroup.append('path')
-        .datum(finalData)
-        .attr('class', 'line')
-        .style('fill', 'none')
-        .style('stroke', this.field.color)
-        .style('stroke-width', 2);
-      
-      // Generate and set the path data with boundary constraints
-      const pathData = this.line(finalData);
-      newPath.attr('d', pathData);
+      // Update line with final data - force redraw
+      this.renderLines(finalData);
+      this.updateDecimationNote(finalData, visibleRows.reduce((total, [from, to]) => total + to - from, 0));
+      this.updatePinLine();
       
     } catch (error) {
       console.error('Error in applyZoom:', error);
@@ -649,16 +1236,11 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
   }
 
   private resetZoom(): void {
-    const timeExtent = d3.extent(this.data, d => d.datetime) as [Date, Date];
+    const timeExtent = this.timeExtent();
     this.xScale.domain(timeExtent);
     
-    // Reset y-axis domain to full data range
-    const validValues = this.data
-      .map(d => d[this.field.key] as number)
-      .filter(v => v !== null && v !== undefined && !isNaN(v));
-    
-    const valueExtent = d3.extent(validValues) as [number, number];
-    this.yScale.domain(valueExtent);
+    // Reset y-axis domains to full data range
+    this.updateValueDomains([this.data]);
     
     // Reset to original time formatting
     const timeSpan = timeExtent[1].getTime() - timeExtent[0].getTime();
@@ -675,31 +1257,21 @@ export class ChartComponent implements OnInit, OnDestroy, OnChanges {
       .call(d3.axisBottom(this.xScale)
         .tickFormat(timeFormat));
 
-    // Update y-axis with full data range
-    this.svg.select('.y-axis')
-      .call(d3.axisLeft(this.yScale));
+    // Update y-axes with full data range
+    this.updateYAxes();
 
     // Update centerline position for reset view
     this.updateCenterline();
 
-    // Update line with decimated data - force redraw by removing and recreating
-    const lineGroup = this.svg.select('.line-group');
-    lineGroup.selectAll('.line').remove();
-    lineGroup.selectAll('.null-gap').remove();
-    
-    // Draw null data gaps as red background areas
-    this.drawNullGaps(lineGroup);
-    
-    lineGroup.append('path')
-      .datum(this.decimatedData)
-      .attr('class', 'line')
-      .attr('d', this.line)
-      .style('fill', 'none')
-      .style('stroke', this.field.color)
-      .style('stroke-width', 2);
+    // Update line with decimated data - force redraw
+    this.renderLines(this.series.map(series => series.decimated));
+    this.updateDecimationNote(this.series.map(series => series.decimated),
+      this.series.reduce((total, series) => total + series.data.length, 0));
+
+    this.updatePinLine();
 
     // Clear brush
     this.svg.select('.brush').call(this.brush.move, null);
     this.currentTimeRange = null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,120 @@
+import { Component, Inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { ColumnMappingRequest, CsvMetadata } from '../../models/data.model';
+import { UNIT_SYMBOLS } from '../../utils/units';
+
+type ColumnRole = 'time' | 'latitude' | 'longitude' | 'number' | 'string' | 'exclude';
+
+interface ColumnRow {
+  header: string;
+  role: ColumnRole;
+  samples: string[];
+  isNumeric: boolean;
+  unit: string | null;
+}
+
+// Roles that at most one column can take
+const SINGLE_ROLES: ColumnRole[] = ['time', 'latitude', 'longitude'];
+
+@Component({
+  selector: 'app-column-mapping-dialog',
+  templateUrl: './column-mapping-dialog.component.html',
+  styleUrls: ['./column-mapping-dialog.component.scss']
+})
+export class ColumnMappingDialogComponent {
+  readonly roles: { value: ColumnRole; label: string }[] = [
+    { value: 'time', label: 'Time axis' },
+    { value: 'latitude', label: 'Latitude' },
+    { value: 'longitude', label: 'Longitude' },
+    { value: 'number', label: 'Numeric' },
+    { value: 'string', label: 'Categorical' },
+    { value: 'exclude', label: 'Exclude' }
+  ];
+  readonly units = UNIT_SYMBOLS;
+
+  columns: ColumnRow[];
+
+  constructor(
+    private dialogRef: MatDialogRef<ColumnMappingDialogComponent, CsvMetadata | null>,
+    @Inject(MAT_DIALOG_DATA) public request: ColumnMappingRequest
+  ) {
+    const metadata = request.metadata;
+    this.columns = metadata.headers.map((header, index) => ({
+      header,
+      role: this.roleFromMetadata(header, metadata),
+      samples: request.previewRows.map(row => row[index] ?? ''),
+      isNumeric: request.numericColumns.includes(header),
+      unit: metadata.fieldUnits[header] ?? null
+    }));
+  }
+
+  get hasTimeColumn(): boolean {
+    return this.columns.some(column => column.role === 'time');
+  }
+
+  onRoleChange(changed: ColumnRow, role: ColumnRole): void {
+    // Time, latitude and longitude are exclusive: the previous holder falls
+    // back to its detected type
+    if (SINGLE_ROLES.includes(role)) {
+      this.columns
+        .filter(column => column !== changed && column.role === role)
+        .forEach(column => column.role = this.detectedType(column));
+    }
+    changed.role = role;
+  }
+
+  onUnitChange(changed: ColumnRow, unit: string | null): void {
+    changed.unit = unit;
+  }
+
+  isRoleAvailable(column: ColumnRow, role: ColumnRole): boolean {
+    // Numeric plotting only makes sense for columns that parse as numbers
+    return role !== 'number' || column.isNumeric || column.role === 'number';
+  }
+
+  onConfirm(): void {
+    const columnsWithRole = (role: ColumnRole) =>
+      this.columns.filter(column => column.role === role).map(column => column.header);
+
+    const fieldUnits: { [column: string]: string } = {};
+    this.columns
+      .filter(column => column.role === 'number' && column.unit !== null)
+      .forEach(column => fieldUnits[column.header] = column.unit as string);
+
+    const metadata: CsvMetadata = {
+      ...this.request.metadata,
+      dateTimeField: columnsWithRole('time')[0] ?? null,
+      latitudeField: columnsWithRole('latitude')[0] ?? null,
+      longitudeField: columnsWithRole('longitude')[0] ?? null,
+      numericFields: columnsWithRole('number'),
+      categoricalFields: columnsWithRole('string'),
+      excludedFields: columnsWithRole('exclude'),
+      fieldUnits
+    };
+    this.dialogRef.close(metadata);
+  }
+
+  onCancel(): void {
+    this.dialogRef.close(null);
+  }
+
+  private roleFromMetadata(header: string, metadata: CsvMetadata): ColumnRole {
+    if (header === metadata.dateTimeField) {
+      return 'time';
+    }
+    if (header === metadata.latitudeField) {
+      return 'latitude';
+    }
+    if (header === metadata.longitudeField) {
+      return 'longitude';
+    }
+    if (metadata.excludedFields.includes(header)) {
+      return 'exclude';
+    }
+    return metadata.numericFields.includes(header) ? 'number' : 'string';
+  }
+
+  private detectedType(column: ColumnRow): ColumnRole {
+    return column.isNumeric ? 'number' : 'string';
+  }
+}
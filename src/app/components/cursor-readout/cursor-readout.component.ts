@@ -0,0 +1,104 @@
+import { Component, Input, OnInit, OnChanges, OnDestroy } from '@angular/core';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { PlotField } from '../../models/data.model';
+import { ColumnStore } from '../../utils/column-store';
+import { SyncService } from '../../services/sync.service';
+import { QueryService } from '../../services/query.service';
+import { UnitService } from '../../services/unit.service';
+
+interface ReadoutRow {
+  field: PlotField;
+  cursor: string | null; // Value at the hovered time
+  pinned: string | null; // Value at the pinned cursor
+}
+
+@Component({
+  selector: 'app-cursor-readout',
+  templateUrl: './cursor-readout.component.html',
+  styleUrls: ['./cursor-readout.component.scss']
+})
+export class CursorReadoutComponent implements OnInit, OnChanges, OnDestroy {
+  @Input() data: ColumnStore = ColumnStore.empty();
+  @Input() fields: PlotField[] = [];
+
+  cursorTime: Date | null = null;
+  pinnedTime: Date | null = null;
+  rows: ReadoutRow[] = [];
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private syncService: SyncService,
+    private queryService: QueryService,
+    private unitService: UnitService
+  ) {}
+
+  ngOnInit(): void {
+    this.syncService.hover$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => {
+        this.cursorTime = event ? event.dataPoint.datetime : null;
+        this.updateRows();
+      });
+
+    this.syncService.pinnedTime$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(time => {
+        this.pinnedTime = time;
+        this.updateRows();
+      });
+
+    this.unitService.unitSystem$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.updateRows());
+  }
+
+  ngOnChanges(): void {
+    this.updateRows();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onUnpin(): void {
+    this.syncService.unpinCursor();
+  }
+
+  private updateRows(): void {
+    const cursorRow = this.rowAt(this.cursorTime);
+    const pinnedRow = this.rowAt(this.pinnedTime);
+    this.rows = this.fields.map(field => ({
+      field,
+      cursor: this.formatValue(field, cursorRow),
+      pinned: this.formatValue(field, pinnedRow)
+    }));
+  }
+
+  private rowAt(time: Date | null): number {
+    return time ? this.queryService.nearest(this.data, time) : -1;
+  }
+
+  /** A field's value in a row, in the display unit; null when missing. */
+  private formatValue(field: PlotField, index: number): string | null {
+    if (index < 0) {
+      return null;
+    }
+    if (!this.data.isNumeric(field.key)) {
+      const value = this.data.value(field.key, index);
+      return value === null ? null : String(value);
+    }
+    const value = this.unitService.converterFor(field)(this.data.number(field.key, index));
+    if (isNaN(value)) {
+      return null;
+    }
+    // Date fields hold epoch milliseconds
+    if (field.dataType === 'date') {
+      return new Date(value).toLocaleString();
+    }
+    const unit = this.unitService.displayUnit(field);
+    return unit ? `${value.toFixed(2)} ${unit}` : value.toFixed(2);
+  }
+}
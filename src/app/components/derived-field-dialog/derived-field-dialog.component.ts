@@ -0,0 +1,93 @@
+import { Component, OnDestroy } from '@angular/core';
+import { MatDialogRef } from '@angular/material/dialog';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { DerivedFieldDefinition, PlotField } from '../../models/data.model';
+import { CsvService } from '../../services/csv.service';
+import { checkFormulaColumns, parseFormula, FormulaError, FORMULA_FUNCTIONS } from '../../utils/formula';
+import { canChangeChartType } from '../../utils/field-types';
+
+/** Editor for fields computed with a formula; closes with the key of the field added. */
+@Component({
+  selector: 'app-derived-field-dialog',
+  templateUrl: './derived-field-dialog.component.html',
+  styleUrls: ['./derived-field-dialog.component.scss']
+})
+export class DerivedFieldDialogComponent implements OnDestroy {
+  name = '';
+  expression = '';
+  unit = '';
+  error: string | null = null;
+  columns: PlotField[] = []; // Numeric columns a formula can use
+  derivedFields: DerivedFieldDefinition[] = [];
+
+  readonly functions = FORMULA_FUNCTIONS;
+
+  private destroy$ = new Subject<void>();
+
+  constructor(
+    private dialogRef: MatDialogRef<DerivedFieldDialogComponent, string | null>,
+    private csvService: CsvService
+  ) {
+    this.csvService.availableFields$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(fields => {
+        // Coded states are numbers as well, whichever way they are drawn
+        this.columns = fields.filter(field => field.chartType === 'line' || canChangeChartType(field.dataType));
+      });
+
+    this.csvService.derivedFields$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(definitions => {
+        this.derivedFields = definitions;
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  onExpressionInput(expression: string): void {
+    this.expression = expression;
+    this.error = this.expression.trim() === '' ? null : this.checkExpression();
+  }
+
+  /** Append a column reference at the end of the formula. */
+  onColumnClicked(field: PlotField): void {
+    const reference = /^[A-Za-z_][A-Za-z0-9_.]*$/.test(field.key) ? field.key : `\`${field.key}\``;
+    const separator = this.expression === '' || this.expression.endsWith(' ') ? '' : ' ';
+    this.onExpressionInput(this.expression + separator + reference);
+  }
+
+  onRemove(definition: DerivedFieldDefinition): void {
+    this.csvService.removeDerivedField(definition.key);
+  }
+
+  onConfirm(): void {
+    const definition: DerivedFieldDefinition = {
+      key: this.name.trim(),
+      expression: this.expression.trim(),
+      unit: this.unit.trim() || null
+    };
+    try {
+      this.csvService.addDerivedField(definition);
+      this.dialogRef.close(definition.key);
+    } catch (error) {
+      this.error = error instanceof FormulaError ? error.message : String(error);
+    }
+  }
+
+  onCancel(): void {
+    this.dialogRef.close(null);
+  }
+
+  private checkExpression(): string | null {
+    try {
+      checkFormulaColumns(parseFormula(this.expression), this.csvService.getCurrentData());
+      return null;
+    } catch (error) {
+      return error instanceof FormulaError ? error.message : String(error);
+    }
+  }
+}
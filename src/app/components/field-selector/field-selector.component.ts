@@ -1,6 +1,10 @@
-import { Component, Input, Output, EventEmitter } from '@angular/core';
-import { PlotField } from '../../models/data.model';
+import { Component, Input, Output, EventEmitter, HostListener } from '@angular/core';
+import {
+  PlotField, ParseProgress, DataSource, DateTimeFormat, DateTimeOptions, InputFormat, DEFAULT_DATETIME_OPTIONS
+} from '../../models/data.model';
 import { SyncService } from '../../services/sync.service';
+import { ACCEPTED_EXTENSIONS, INPUT_READERS } from '../../utils/readers';
+import { canChangeChartType } from '../../utils/field-types';
 
 @Component({
   selector: 'app-field-selector',
@@ -10,19 +14,78 @@ import { SyncService } from '../../services/sync.service';
 export class FieldSelectorComponent {
   @Input() availableFields: PlotField[] = [];
   @Input() selectedFields: PlotField[] = [];
+  @Input() parseProgress: ParseProgress | null = null;
+  @Input() sources: DataSource[] = [];
+  @Input() dateTimeOptions: DateTimeOptions = DEFAULT_DATETIME_OPTIONS;
+  @Input() inputFormat: InputFormat = 'auto';
   @Output() fieldSelected = new EventEmitter<PlotField>();
   @Output() fieldRemoved = new EventEmitter<PlotField>();
+  @Output() chartTypeChange = new EventEmitter<{ field: PlotField, chartType: PlotField['chartType'] }>();
   @Output() fileUpload = new EventEmitter<File>();
+  @Output() filesAdd = new EventEmitter<File[]>();
+  @Output() loadUrl = new EventEmitter<void>();
+  @Output() newDerivedField = new EventEmitter<void>();
   @Output() clearZoom = new EventEmitter<void>();
+  @Output() cancelParse = new EventEmitter<void>();
+  @Output() dateTimeOptionsChange = new EventEmitter<DateTimeOptions>();
+  @Output() inputFormatChange = new EventEmitter<InputFormat>();
 
   selectedFieldKey: string = '';
   hasZoom: boolean = false;
+  canZoomBack: boolean = false;
+  canZoomForward: boolean = false;
+
+  readonly dateTimeFormats: { value: DateTimeFormat; label: string }[] = [
+    { value: 'auto', label: 'Auto-detect' },
+    { value: 'iso', label: 'ISO (2025-11-29 01:52:03)' },
+    { value: 'mdy', label: 'US (11/29/2025 0:00:00)' },
+    { value: 'dmy', label: 'Day first (29/11/2025 0:00:00)' },
+    { value: 'epoch-s', label: 'Epoch seconds' },
+    { value: 'epoch-ms', label: 'Epoch milliseconds' },
+    { value: 'elapsed', label: 'Elapsed (mm:ss.f)' }
+  ];
+
+  readonly inputFormats: { value: InputFormat; label: string }[] = [
+    { value: 'auto', label: 'Auto-detect' },
+    ...INPUT_READERS.map(reader => ({ value: reader.format, label: reader.label }))
+  ];
+
+  readonly acceptedExtensions = ACCEPTED_EXTENSIONS;
+
+  readonly progressStageLabels: { [stage in ParseProgress['stage']]: string } = {
+    reading: 'Reading',
+    analyzing: 'Analyzing',
+    building: 'Building'
+  };
+
+  readonly timeZones: string[] = ['local', 'UTC', ...Intl.supportedValuesOf('timeZone').filter(zone => zone !== 'UTC')];
 
   constructor(private syncService: SyncService) {
     // Track if there's an active zoom
     this.syncService.zoom$.subscribe(timeRange => {
       this.hasZoom = timeRange !== null;
     });
+    this.syncService.zoomHistory$.subscribe(history => {
+      this.canZoomBack = history.canGoBack;
+      this.canZoomForward = history.canGoForward;
+    });
+  }
+
+  // [ and ] step through the zoom history
+  @HostListener('document:keydown', ['$event'])
+  onKeyDown(event: KeyboardEvent): void {
+    const target = event.target as HTMLElement | null;
+    if (event.ctrlKey || event.metaKey || event.altKey ||
+        (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)))) {
+      return;
+    }
+    if (event.key === '[') {
+      event.preventDefault();
+      this.onZoomBack();
+    } else if (event.key === ']') {
+      event.preventDefault();
+      this.onZoomForward();
+    }
   }
 
   get unselectedFields(): PlotField[] {
@@ -44,6 +107,14 @@ export class FieldSelectorComponent {
     this.fieldRemoved.emit(field);
   }
 
+  canChangeChartType(field: PlotField): boolean {
+    return canChangeChartType(field.dataType);
+  }
+
+  onChartTypeToggle(field: PlotField): void {
+    this.chartTypeChange.emit({ field, chartType: field.chartType === 'line' ? 'state' : 'line' });
+  }
+
   onFileSelected(event: Event): void {
     const input = event.target as HTMLInputElement;
     if (input.files && input.files.length > 0) {
@@ -54,6 +125,54 @@ export class FieldSelectorComponent {
     }
   }
 
+  get hasData(): boolean {
+    return this.sources.length > 0;
+  }
+
+  get detectedFormatLabel(): string | null {
+    if (!this.hasData || this.dateTimeOptions.format !== 'auto') {
+      return null;
+    }
+    const labels = this.sources.map(source => {
+      const format = this.dateTimeFormats.find(f => f.value === source.metadata.dateTimeFormat);
+      return format ? format.label : 'Browser default';
+    });
+    return [...new Set(labels)].join(', ');
+  }
+
+  onDateTimeFormatChange(format: DateTimeFormat): void {
+    this.dateTimeOptionsChange.emit({ ...this.dateTimeOptions, format });
+  }
+
+  onTimeZoneChange(timeZone: string): void {
+    this.dateTimeOptionsChange.emit({ ...this.dateTimeOptions, timeZone });
+  }
+
+  onInputFormatChange(format: InputFormat): void {
+    this.inputFormatChange.emit(format);
+  }
+
+  onCancelParse(): void {
+    this.cancelParse.emit();
+  }
+
+  onFileAdded(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    if (input.files && input.files.length > 0) {
+      this.filesAdd.emit(Array.from(input.files));
+      // Reset file input
+      input.value = '';
+    }
+  }
+
+  onLoadUrl(): void {
+    this.loadUrl.emit();
+  }
+
+  onNewDerivedField(): void {
+    this.newDerivedField.emit();
+  }
+
   onZoomOut(): void {
     const currentZoom = this.syncService.getCurrentZoom();
     if (currentZoom) {
@@ -71,6 +190,14 @@ export class FieldSelectorComponent {
     }
   }
 
+  onZoomBack(): void {
+    this.syncService.zoomBack();
+  }
+
+  onZoomForward(): void {
+    this.syncService.zoomForward();
+  }
+
   onClearZoom(): void {
     this.clearZoom.emit();
   }
@@ -0,0 +1,34 @@
+import { Component, Input, Output, EventEmitter, OnChanges } from '@angular/core';
+import { PlotField, SeriesGroup, SeriesGrouping } from '../../models/data.model';
+import { ColumnStore } from '../../utils/column-store';
+import { canChangeChartType } from '../../utils/field-types';
+import { distinctValues, MAX_SERIES_GROUPS } from '../../services/grouping.service';
+
+@Component({
+  selector: 'app-group-selector',
+  templateUrl: './group-selector.component.html',
+  styleUrls: ['./group-selector.component.scss']
+})
+export class GroupSelectorComponent implements OnChanges {
+  @Input() fields: PlotField[] = [];
+  @Input() data: ColumnStore = ColumnStore.empty();
+  @Input() grouping: SeriesGrouping | null = null;
+  @Output() groupFieldChange = new EventEmitter<string | null>();
+  @Output() groupVisibilityChange = new EventEmitter<{ value: string, visible: boolean }>();
+
+  groupableFields: PlotField[] = [];
+
+  ngOnChanges(): void {
+    // Categorical columns with a manageable number of distinct values
+    this.groupableFields = this.fields.filter(field =>
+      (field.chartType === 'state' || canChangeChartType(field.dataType)) && distinctValues(this.data, field.key).length <= MAX_SERIES_GROUPS);
+  }
+
+  onGroupFieldChange(field: string): void {
+    this.groupFieldChange.emit(field || null);
+  }
+
+  onGroupToggle(group: SeriesGroup): void {
+    this.groupVisibilityChange.emit({ value: group.value, visible: !group.visible });
+  }
+}
@@ -2,8 +2,11 @@ import { Component, OnInit, OnDestroy, OnChanges, ElementRef, ViewChild, Input }
 import { Subject } from 'rxjs';
 import { takeUntil } from 'rxjs/operators';
 import * as L from 'leaflet';
-import { DataPoint, HoverEvent, TimeRange } from '../../models/data.model';
+import { DataPoint, TimeRange, SeriesGrouping } from '../../models/data.model';
+import { ColumnStore } from '../../utils/column-store';
 import { SyncService } from '../../services/sync.service';
+import { GroupingService, GroupedSeries, splitIntoSeries } from '../../services/grouping.service';
+import { QueryService } from '../../services/query.service';
 
 @Component({
   selector: 'app-map',
@@ -12,18 +15,25 @@ import { SyncService } from '../../services/sync.service';
 })
 export class MapComponent implements OnInit, OnDestroy, OnChanges {
   @ViewChild('mapContainer', { static: true }) mapContainer!: ElementRef;
-  @Input() data: DataPoint[] = [];
+  @Input() data: ColumnStore = ColumnStore.empty();
 
   private destroy$ = new Subject<void>();
   private map!: L.Map;
-  private pathPolyline!: L.Polyline;
+  private pathLayer: L.FeatureGroup | null = null;
   private currentMarker!: L.Marker;
+  private grouping: SeriesGrouping | null = null;
+  private groupedSeries: GroupedSeries[] = [];
+  private groupMarkers: L.Marker[] = [];
   private isInitialized = false;
   private isUpdatingZoom = false;
   private lastZoomTimeRange: TimeRange | null = null;
   private zoomTimeout: any = null;
 
-  constructor(private syncService: SyncService) {}
+  constructor(
+    private syncService: SyncService,
+    private groupingService: GroupingService,
+    private queryService: QueryService
+  ) {}
 
   ngOnInit(): void {
     // Give the DOM a moment to render
@@ -109,6 +119,22 @@ export class MapComponent implements OnInit, OnDestroy, OnChanges {
         }
       });
 
+    // Draw one track per group when the data is split by an ID column
+    this.groupingService.grouping$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(grouping => {
+        this.grouping = grouping;
+        if (this.isInitialized && this.data.length > 0) {
+          const timeRange = this.syncService.getCurrentZoom();
+          if (timeRange) {
+            this.lastZoomTimeRange = null;
+            this.updatePathForTimeRange(timeRange);
+          } else {
+            this.updatePath();
+          }
+        }
+      });
+
     // Subscribe to zoom events to update the map path
     this.syncService.zoom$
       .pipe(takeUntil(this.destroy$))
@@ -146,33 +172,21 @@ export class MapComponent implements OnInit, OnDestroy, OnChanges {
     if (!this.map || this.data.length === 0) return;
 
     try {
-      // Create path from all data points
-      const latlngs: L.LatLngExpression[] = this.data.map(point => [point.latitude, point.longitude]);
-
-      // Remove existing path if it exists
-      if (this.pathPolyline) {
-        this.map.removeLayer(this.pathPolyline);
-      }
-
-      // Create new path
-      this.pathPolyline = L.polyline(latlngs, {
-        color: '#2196F3', // Blue for full data view
-        weight: 3,
-        opacity: 0.7
-      }).addTo(this.map);
+      // Create path from all data points, blue for full data view
+      const pointCount = this.drawTracks(this.data, '#2196F3', 0.7);
 
       // Update current marker to first position
       if (this.data.length > 0) {
-        this.updateCurrentPosition(this.data[0]);
+        this.updateCurrentPosition(this.data.row(0));
       }
 
       // Fit map to path bounds with animation disabled to prevent multiple zooms
-      if (latlngs.length > 1) {
-        this.map.fitBounds(this.pathPolyline.getBounds(), { 
+      if (pointCount > 1 && this.pathLayer) {
+        this.map.fitBounds(this.pathLayer.getBounds(), { 
           padding: [20, 20],
           animate: false // Disable animation to prevent multiple zoom events
         });
-      } else if (latlngs.length === 1) {
+      } else if (pointCount === 1) {
         // Center on the first GPS location with appropriate zoom level
         this.centerMapOnFirstLocation();
       }
@@ -181,6 +195,59 @@ export class MapComponent implements OnInit, OnDestroy, OnChanges {
     }
   }
 
+  /**
+   * Replace the drawn track with one polyline per visible group (or a single
+   * polyline in `color` when ungrouped). Returns the number of points drawn.
+   */
+  private drawTracks(points: ColumnStore, color: string, opacity: number): number {
+    if (this.pathLayer) {
+      this.map.removeLayer(this.pathLayer);
+    }
+    this.groupMarkers.forEach(marker => this.map.removeLayer(marker));
+    this.groupMarkers = [];
+
+    this.groupedSeries = this.grouping ? splitIntoSeries(points, this.grouping) : [];
+    const tracks = this.grouping
+      ? this.groupedSeries.map(series => ({ latlngs: this.toLatLngs(series.data), color: series.group!.color }))
+      : [{ latlngs: this.toLatLngs(points), color }];
+
+    this.pathLayer = L.featureGroup(tracks.map(track => L.polyline(track.latlngs, {
+      color: track.color,
+      weight: 3,
+      opacity
+    }))).addTo(this.map);
+
+    // Grouped tracks each get their own position marker
+    this.groupMarkers = this.groupedSeries.map(series => L.marker([0, 0], {
+      icon: L.divIcon({
+        className: 'current-position-marker',
+        html: `<div class="marker-dot" style="background: ${series.group!.color}"></div>`,
+        iconSize: [20, 20],
+        iconAnchor: [10, 10]
+      })
+    }));
+    this.currentMarker.setOpacity(this.grouping ? 0 : 1);
+
+    return tracks.reduce((total, track) => total + track.latlngs.length, 0);
+  }
+
+  private toLatLngs(points: ColumnStore): L.LatLngExpression[] {
+    const latitudes = points.numbers('latitude');
+    const longitudes = points.numbers('longitude');
+    if (!latitudes || !longitudes) {
+      return [];
+    }
+
+    // Rows merged in from files without GPS have no coordinates
+    const latlngs: L.LatLngExpression[] = [];
+    for (let i = 0; i < points.length; i++) {
+      if (isFinite(latitudes[i]) && isFinite(longitudes[i])) {
+        latlngs.push([latitudes[i], longitudes[i]]);
+      }
+    }
+    return latlngs;
+  }
+
   private updateCurrentPosition(dataPoint: DataPoint): void {
     if (!this.currentMarker) {
       return;
@@ -193,14 +260,52 @@ export class MapComponent implements OnInit, OnDestroy, OnChanges {
     const latlng: L.LatLngExpression = [dataPoint.latitude, dataPoint.longitude];
     this.currentMarker.setLatLng(latlng);
 
+    if (this.grouping) {
+      this.updateGroupPositions(dataPoint.datetime);
+    }
+
     // Optionally pan to the current position
     // this.map.panTo(latlng);
   }
 
+  private updateGroupPositions(time: Date): void {
+    // Move each group's marker to that group's sample nearest the hovered time
+    this.groupedSeries.forEach((series, index) => {
+      const position = this.findClosestPosition(series.data, time);
+      const marker = this.groupMarkers[index];
+      if (!position || !marker) {
+        return;
+      }
+      marker.setLatLng(position);
+      if (!this.map.hasLayer(marker)) {
+        marker.addTo(this.map);
+      }
+    });
+  }
+
+  private findClosestPosition(data: ColumnStore, time: Date): L.LatLngTuple | null {
+    const latitudes = data.numbers('latitude');
+    const longitudes = data.numbers('longitude');
+    if (!latitudes || !longitudes) {
+      return null;
+    }
+
+    // The samples either side of the time, whichever is nearer and has a position
+    const [index] = this.queryService.rows(data, { start: time, end: time });
+    const candidates = [index - 1, index]
+      .filter(i => i >= 0 && i < data.length && isFinite(latitudes[i]) && isFinite(longitudes[i]));
+    if (candidates.length === 0) {
+      return null;
+    }
+    const best = candidates.reduce((nearest, i) =>
+      Math.abs(data.time(i) - time.getTime()) < Math.abs(data.time(nearest) - time.getTime()) ? i : nearest);
+    return [latitudes[best], longitudes[best]];
+  }
+
   private centerMapOnFirstLocation(): void {
     if (!this.map || this.data.length === 0) return;
 
-    const firstPoint = this.data[0];
+    const firstPoint = this.data.row(0);
     if (!firstPoint.latitude || !firstPoint.longitude) {
       return;
     }
@@ -226,48 +331,35 @@ export class MapComponent implements OnInit, OnDestroy, OnChanges {
       this.isUpdatingZoom = true;
       this.lastZoomTimeRange = timeRange;
 
-      // Filter data points within the time range
-      const filteredData = this.data.filter(point => 
-        point.datetime >= timeRange.start && point.datetime <= timeRange.end
-      );
+      // Rows within the time range
+      const filteredData = this.queryService.slice(this.data, timeRange);
 
       if (filteredData.length === 0) {
         return;
       }
 
-      // Create path from filtered data points
-      const latlngs: L.LatLngExpression[] = filteredData.map(point => [point.latitude, point.longitude]);
-
-      // Remove existing path if it exists
-      if (this.pathPolyline) {
-        this.map.removeLayer(this.pathPolyline);
-      }
-
-      // Create new path for the time range
-      this.pathPolyline = L.polyline(latlngs, {
-        color: '#FF6B35', // Different color to indicate filtered view
-        weight: 3,
-        opacity: 0.8
-      }).addTo(this.map);
+      // Create path for the time range, in a different color to indicate filtered view
+      const pointCount = this.drawTracks(filteredData, '#FF6B35', 0.8);
 
       // Fit map to the filtered path bounds with animation disabled to prevent multiple zooms
-      if (latlngs.length > 1) {
+      if (pointCount > 1) {
         // Use a small delay to ensure the polyline is fully rendered before fitting bounds
         setTimeout(() => {
-          if (this.pathPolyline && this.map) {
-            this.map.fitBounds(this.pathPolyline.getBounds(), { 
+          if (this.pathLayer && this.map) {
+            this.map.fitBounds(this.pathLayer.getBounds(), { 
               padding: [20, 20],
               animate: false // Disable animation to prevent multiple zoom events
             });
           }
         }, 10);
-      } else if (latlngs.length === 1) {
-        this.map.setView(latlngs[0] as L.LatLngExpression, 15, { animate: false });
+      } else if (pointCount === 1) {
+        const [latlng] = this.toLatLngs(filteredData);
+        this.map.setView(latlng, 15, { animate: false });
       }
 
       // Update current marker to first position in range
       if (filteredData.length > 0) {
-        this.updateCurrentPosition(filteredData[0]);
+        this.updateCurrentPosition(filteredData.row(0));
       }
     } catch (error) {
       console.error('Error updating map for time range:', error);
@@ -0,0 +1,55 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { DataSource, DataQualityReport } from '../../models/data.model';
+
+// Columns with at least this share of empty values are highlighted
+const NULL_WARNING_PERCENT = 10;
+
+@Component({
+  selector: 'app-quality-report',
+  templateUrl: './quality-report.component.html',
+  styleUrls: ['./quality-report.component.scss']
+})
+export class QualityReportComponent {
+  @Input() sources: DataSource[] = [];
+  @Input() loadError: string | null = null;
+  @Output() errorDismissed = new EventEmitter<void>();
+
+  expanded = true;
+
+  toggleExpanded(): void {
+    this.expanded = !this.expanded;
+  }
+
+  onDismissError(): void {
+    this.errorDismissed.emit();
+  }
+
+  issueCount(report: DataQualityReport): number {
+    return report.wrongColumnCountRows.length +
+      report.invalidTimestampRows.length +
+      report.outOfOrderTimestamps +
+      report.duplicateTimestamps +
+      report.invalidCoordinateRows;
+  }
+
+  isSparse(nullPercent: number): boolean {
+    return nullPercent >= NULL_WARNING_PERCENT;
+  }
+
+  rowsPreview(rows: number[]): string {
+    return rows.slice(0, 10).join(', ') + (rows.length > 10 ? ', ...' : '');
+  }
+
+  formatInterval(ms: number): string {
+    if (ms < 1000) {
+      return `${Math.round(ms)} ms`;
+    }
+    if (ms < 60 * 1000) {
+      return `${(ms / 1000).toFixed(ms < 10 * 1000 ? 2 : 1)} s`;
+    }
+    if (ms < 60 * 60 * 1000) {
+      return `${(ms / 60000).toFixed(1)} min`;
+    }
+    return `${(ms / 3600000).toFixed(1)} h`;
+  }
+}
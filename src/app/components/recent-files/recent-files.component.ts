@@ -0,0 +1,40 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { RecentDataset } from '../../models/data.model';
+
+@Component({
+  selector: 'app-recent-files',
+  templateUrl: './recent-files.component.html',
+  styleUrls: ['./recent-files.component.scss']
+})
+export class RecentFilesComponent {
+  @Input() entries: RecentDataset[] = [];
+  @Output() entryOpened = new EventEmitter<RecentDataset>();
+  @Output() entryDeleted = new EventEmitter<RecentDataset>();
+
+  onOpen(entry: RecentDataset): void {
+    this.entryOpened.emit(entry);
+  }
+
+  onDelete(entry: RecentDataset): void {
+    this.entryDeleted.emit(entry);
+  }
+
+  formatSize(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  formatSpan(entry: RecentDataset): string {
+    if (entry.start === null || entry.end === null) {
+      return 'no timestamps';
+    }
+    const start = new Date(entry.start).toLocaleString();
+    const end = new Date(entry.end).toLocaleString();
+    return `${start} – ${end}`;
+  }
+}
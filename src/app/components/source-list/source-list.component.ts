@@ -0,0 +1,55 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import {
+  DataSource, MergeOptions, DuplicatePolicy, UnitSystem, DecimationMethod, DEFAULT_MERGE_OPTIONS, DEFAULT_DUPLICATE_POLICY,
+  DEFAULT_UNIT_SYSTEM, DEFAULT_DECIMATION_METHOD
+} from '../../models/data.model';
+
+@Component({
+  selector: 'app-source-list',
+  templateUrl: './source-list.component.html',
+  styleUrls: ['./source-list.component.scss']
+})
+export class SourceListComponent {
+  @Input() sources: DataSource[] = [];
+  @Input() mergeOptions: MergeOptions = DEFAULT_MERGE_OPTIONS;
+  @Input() duplicatePolicy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY;
+  @Input() unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM;
+  @Input() decimation: DecimationMethod = DEFAULT_DECIMATION_METHOD;
+  @Output() sourceRemoved = new EventEmitter<DataSource>();
+  @Output() mergeOptionsChange = new EventEmitter<MergeOptions>();
+  @Output() duplicatePolicyChange = new EventEmitter<DuplicatePolicy>();
+  @Output() unitSystemChange = new EventEmitter<UnitSystem>();
+  @Output() decimationChange = new EventEmitter<DecimationMethod>();
+
+  onSourceRemove(source: DataSource): void {
+    this.sourceRemoved.emit(source);
+  }
+
+  onMergeModeChange(mode: MergeOptions['mode']): void {
+    this.mergeOptionsChange.emit({ ...this.mergeOptions, mode });
+  }
+
+  onToleranceChange(event: Event): void {
+    const seconds = parseFloat((event.target as HTMLInputElement).value);
+    if (!isNaN(seconds) && seconds >= 0) {
+      this.mergeOptionsChange.emit({ ...this.mergeOptions, toleranceMs: seconds * 1000 });
+    }
+  }
+
+  onDuplicatePolicyChange(policy: DuplicatePolicy): void {
+    this.duplicatePolicyChange.emit(policy);
+  }
+
+  onUnitSystemChange(system: UnitSystem): void {
+    this.unitSystemChange.emit(system);
+  }
+
+  onDecimationChange(method: DecimationMethod): void {
+    this.decimationChange.emit(method);
+  }
+
+  invalidRowsPreview(source: DataSource): string {
+    const rows = source.metadata.invalidTimestampRows;
+    return rows.slice(0, 10).join(', ') + (rows.length > 10 ? ', ...' : '');
+  }
+}
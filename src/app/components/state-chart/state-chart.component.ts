@@ -1,9 +1,14 @@
-import { Component, OnInit, OnDestroy, OnChanges, ElementRef, ViewChild, Input } from '@angular/core';
+import { Component, OnInit, OnDestroy, OnChanges, SimpleChange, SimpleChanges, ElementRef, ViewChild, Input } from '@angular/core';
 import { Subject } from 'rxjs';
 import { takeUntil, throttleTime } from 'rxjs/operators';
 import * as d3 from 'd3';
-import { DataPoint, PlotField, TimeRange, HoverEvent, STATE_COLORS } from '../../models/data.model';
+import { PlotField, TimeRange, HoverEvent, SeriesGrouping, STATE_COLORS } from '../../models/data.model';
+import { ColumnStore } from '../../utils/column-store';
 import { SyncService } from '../../services/sync.service';
+import { GroupingService, GroupedSeries, splitIntoSeries } from '../../services/grouping.service';
+import { QueryService } from '../../services/query.service';
+import { attachZoomGestures } from '../../utils/zoom-gestures';
+import { CANVAS_POINT_THRESHOLD, CanvasRect, clearCanvas, createPlotCanvas, drawRects } from '../../utils/canvas-renderer';
 
 @Component({
   selector: 'app-state-chart',
@@ -12,13 +17,15 @@ import { SyncService } from '../../services/sync.service';
 })
 export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
   @ViewChild('chartContainer', { static: true }) chartContainer!: ElementRef;
-  @Input() data: DataPoint[] = [];
+  @Input() data: ColumnStore = ColumnStore.empty();
   @Input() field!: PlotField;
   @Input() height: number = 200;
 
   private destroy$ = new Subject<void>();
+  private detachZoomGestures: () => void = () => {};
   private mouseMoveSubject$ = new Subject<MouseEvent>();
   private svg: any;
+  private canvas!: HTMLCanvasElement;
   private margin = { top: 20, right: 20, bottom: 20, left: 40 };
   private width = 600;
   private actualHeight = 0;
@@ -27,17 +34,34 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
   private stateColorMap: { [key: string]: string } = {};
   private brush: any;
   private currentTimeRange: TimeRange | null = null;
+  private pinnedTime: Date | null = null;
+  private grouping: SeriesGrouping | null = null;
+  private series: GroupedSeries[] = [];
 
-  constructor(private syncService: SyncService) {}
+  constructor(
+    private syncService: SyncService,
+    private groupingService: GroupingService,
+    private queryService: QueryService
+  ) {}
 
   ngOnInit(): void {
     this.actualHeight = this.height - this.margin.top - this.margin.bottom;
     this.initChart();
     this.subscribeToSync();
     this.setupThrottledMouseMove();
+    this.detachZoomGestures = attachZoomGestures({
+      element: this.chartContainer.nativeElement,
+      view: () => {
+        const [start, end] = this.xScale.domain();
+        return { range: { start, end }, left: this.margin.left, width: this.width };
+      },
+      bounds: () => this.data.length > 0 ? this.syncService.getDataBounds() : null,
+      zoomTo: (range, gesture) => range ? this.syncService.emitZoom(range, gesture) : this.syncService.clearZoom()
+    });
   }
 
   ngOnDestroy(): void {
+    this.detachZoomGestures();
     this.destroy$.next();
     this.destroy$.complete();
     this.mouseMoveSubject$.complete();
@@ -52,13 +76,38 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
       .subscribe(event => this.onMouseMoveThrottled(event));
   }
 
-  ngOnChanges(): void {
+  ngOnChanges(changes: SimpleChanges): void {
     if (this.svg && this.data.length > 0) {
       this.updateChart();
+      this.restoreSyncedZoom(changes['data']);
     }
   }
 
+  /**
+   * Data re-published over the same time span, e.g. with a derived field
+   * added, keeps the view the charts are synced to.
+   */
+  private restoreSyncedZoom(dataChange: SimpleChange | undefined): void {
+    const zoom = this.syncService.getCurrentZoom();
+    if (!zoom || !dataChange || dataChange.firstChange || !dataChange.previousValue.hasSameTimeExtent(this.data)) {
+      return;
+    }
+    this.currentTimeRange = zoom;
+    this.applyZoom(zoom);
+  }
+
   private subscribeToSync(): void {
+    this.syncService.hover$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(event => this.showCursor(event ? event.dataPoint.datetime : null));
+
+    this.syncService.pinnedTime$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(time => {
+        this.pinnedTime = time;
+        this.updatePinLine();
+      });
+
     this.syncService.zoom$
       .pipe(takeUntil(this.destroy$))
       .subscribe(timeRange => {
@@ -69,16 +118,30 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
           this.resetZoom();
         }
       });
+
+    this.groupingService.grouping$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(grouping => {
+        this.grouping = grouping;
+        if (this.svg && this.data.length > 0) {
+          this.series = splitIntoSeries(this.data, this.grouping);
+          this.createStateSegments();
+        }
+      });
   }
 
   private initChart(): void {
     const element = this.chartContainer.nativeElement;
     this.width = element.offsetWidth - this.margin.left - this.margin.right;
 
+    // Dense data is drawn on a canvas under the SVG
+    this.canvas = createPlotCanvas(element, this.margin.left, this.margin.top, this.width, this.actualHeight);
+
     this.svg = d3.select(element)
       .append('svg')
       .attr('width', this.width + this.margin.left + this.margin.right)
       .attr('height', this.height)
+      .style('position', 'relative')
       .append('g')
       .attr('transform', `translate(${this.margin.left},${this.margin.top})`);
 
@@ -117,7 +180,13 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
       .style('stroke-dasharray', '1,1')
       .style('opacity', 0.5);
 
-    // Add hover line
+    // Add pinned cursor and hover line
+    this.svg.append('line')
+      .attr('class', 'pin-line')
+      .style('stroke', '#ff9800')
+      .style('stroke-width', 1.5)
+      .style('opacity', 0);
+
     this.svg.append('line')
       .attr('class', 'hover-line')
       .style('stroke', '#999')
@@ -137,7 +206,7 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
       .style('fill', 'rgba(0, 0, 0, 0.8)')
       .style('pointer-events', 'none');
 
-    // Add two text lines - datetime and value
+    // Datetime line, then one value line per series created on hover
     tooltipGroup.append('text')
       .attr('class', 'tooltip-datetime')
       .style('fill', 'white')
@@ -145,13 +214,8 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
       .style('text-anchor', 'middle')
       .style('pointer-events', 'none');
 
-    tooltipGroup.append('text')
-      .attr('class', 'tooltip-value')
-      .style('fill', 'white')
-      .style('font-size', '12px')
-      .style('font-weight', 'bold')
-      .style('text-anchor', 'middle')
-      .style('pointer-events', 'none');
+    tooltipGroup.append('g')
+      .attr('class', 'tooltip-values');
 
     // Add hover overlay (but disable pointer events when brushing)
     this.svg.append('rect')
@@ -166,6 +230,8 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
     // Add brush for zooming (on top)
     this.brush = d3.brushX()
       .extent([[0, 0], [this.width, this.actualHeight]])
+      // Shift-drag pans instead
+      .filter((event: MouseEvent) => !event.ctrlKey && !event.shiftKey && !event.button)
       .on('start', () => {
         // Disable hover when brushing starts
         this.svg.select('.hover-overlay').style('pointer-events', 'none');
@@ -190,15 +256,21 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
   private updateChart(): void {
     if (!this.svg || this.data.length === 0) return;
 
+    this.series = splitIntoSeries(this.data, this.grouping);
+
     // Get unique states and assign colors
-    this.uniqueStates = [...new Set(this.data.map(d => String(d[this.field.key])))];
+    this.uniqueStates = this.data.distinct(this.field.key);
+    if (this.field.dataType === 'integer') {
+      // Keep coded states such as throttle notches in numeric order
+      this.uniqueStates.sort((a, b) => +a - +b);
+    }
     this.stateColorMap = {};
     this.uniqueStates.forEach((state, index) => {
       this.stateColorMap[state] = STATE_COLORS[index % STATE_COLORS.length];
     });
 
     // Update time scale
-    const timeExtent = d3.extent(this.data, d => d.datetime) as [Date, Date];
+    const timeExtent = this.timeExtent();
     this.xScale.domain(timeExtent);
 
     // Update x-axis with dynamic time formatting
@@ -234,17 +306,145 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
     this.createLegend();
   }
 
+  private timeExtent(): [Date, Date] {
+    const [start, end] = this.data.timeExtent() ?? [0, 0];
+    return [new Date(start), new Date(end)];
+  }
+
   private createStateSegments(): void {
+    // Create a group for segments with clipping
+    let segmentGroup = this.svg.select('.segment-group');
+    if (segmentGroup.empty()) {
+      segmentGroup = this.svg.append('g')
+        .attr('class', 'segment-group')
+        .attr('clip-path', `url(#clip-${this.field.key})`);
+    }
+
+    // Remove existing segments from the group
+    segmentGroup.selectAll('.state-segment').remove();
+    segmentGroup.selectAll('.null-gap').remove();
+    segmentGroup.selectAll('.lane-label').remove();
+    clearCanvas(this.canvas);
+
+    // Ungrouped data uses the middle band; grouped data gets one lane per series
+    const isGrouped = this.grouping !== null;
+    const laneHeight = isGrouped ? (this.actualHeight - 20) / Math.max(1, this.series.length) : this.actualHeight;
+
+    const lanes = this.series
+      .map((series, lane) => {
+        const laneTop = isGrouped ? 10 + lane * laneHeight : 0;
+        const segmentY = isGrouped ? laneTop + laneHeight * 0.1 : 10 + (this.actualHeight - 20) / 4;
+        const segmentHeight = isGrouped ? laneHeight * 0.8 : (this.actualHeight - 20) / 2;
+        return { series, laneTop, segmentY, segmentHeight };
+      })
+      .filter(lane => lane.series.data.length > 0)
+      .map(lane => ({ ...lane, ...this.findSegments(this.visibleRows(lane.series.data)) }));
+
+    // Many segments are painted on the canvas; their titles are then left out
+    const count = lanes.reduce((total, lane) => total + lane.segments.length + lane.nullGaps.length, 0);
+    const useCanvas = count > CANVAS_POINT_THRESHOLD;
+
+    lanes.forEach(({ series, laneTop, segmentY, segmentHeight, segments, nullGaps }) => {
+      // Null gaps as red background areas, then the state segments
+      const gapRects: CanvasRect[] = nullGaps.map((d: any) => ({
+        ...this.segmentSpan(d),
+        y: laneTop,
+        height: isGrouped ? laneHeight : this.actualHeight,
+        fill: 'rgba(255, 0, 0, 0.1)',
+        stroke: 'rgba(255, 0, 0, 0.3)'
+      }));
+      const segmentRects: CanvasRect[] = segments.map((d: any) => ({
+        ...this.segmentSpan(d),
+        y: segmentY,
+        height: segmentHeight,
+        fill: d.color,
+        opacity: 0.7
+      }));
+
+      if (useCanvas) {
+        drawRects(this.canvas, gapRects);
+        drawRects(this.canvas, segmentRects);
+      } else {
+        segmentGroup.selectAll(null)
+          .data(gapRects)
+          .enter()
+          .append('rect')
+          .attr('class', 'null-gap')
+          .attr('x', (d: CanvasRect) => d.x)
+          .attr('y', (d: CanvasRect) => d.y)
+          .attr('width', (d: CanvasRect) => d.width)
+          .attr('height', (d: CanvasRect) => d.height)
+          .style('fill', (d: CanvasRect) => d.fill)
+          .style('stroke', (d: CanvasRect) => d.stroke)
+          .style('stroke-width', 1)
+          .style('pointer-events', 'none');
+
+        segmentGroup.selectAll(null)
+          .data(segments)
+          .enter()
+          .append('rect')
+          .attr('class', 'state-segment')
+          .attr('x', (_: any, i: number) => segmentRects[i].x)
+          .attr('y', segmentY)
+          .attr('width', (_: any, i: number) => segmentRects[i].width)
+          .attr('height', segmentHeight)
+          .attr('fill', (d: any) => d.color)
+          .attr('opacity', 0.7)
+          .append('title')
+          .text((d: any) => series.group
+            ? `${series.group.value} - ${this.field.label}: ${d.state}`
+            : `${this.field.label}: ${d.state}`);
+      }
+
+      // Label each lane with its group in the group color
+      if (series.group) {
+        segmentGroup.append('text')
+          .attr('class', 'lane-label')
+          .attr('x', 2)
+          .attr('y', segmentY + segmentHeight / 2)
+          .attr('dy', '0.35em')
+          .style('font-size', '9px')
+          .style('font-weight', 'bold')
+          .style('fill', series.group.color)
+          .style('pointer-events', 'none')
+          .text(series.group.value);
+      }
+    });
+
+    this.updatePinLine();
+  }
+
+  /** Horizontal position of a segment, clipped to the plot and at least a pixel wide. */
+  private segmentSpan(segment: { start: Date, end: Date }): { x: number, width: number } {
+    const startX = Math.max(0, this.xScale(segment.start));
+    const endX = Math.min(this.width, this.xScale(segment.end));
+    return { x: startX, width: Math.max(1, endX - startX) };
+  }
+
+  /**
+   * The rows inside the zoomed time range plus one on either side, so
+   * segments crossing the edges are still drawn.
+   */
+  private visibleRows(data: ColumnStore): ColumnStore {
+    if (!this.currentTimeRange) {
+      return data;
+    }
+    const [from, to] = this.queryService.rows(data, this.currentTimeRange);
+    return data.slice(Math.max(0, from - 1), Math.min(data.length, to + 1));
+  }
+
+  private findSegments(data: ColumnStore): { segments: any[], nullGaps: any[] } {
     // Create segments for each state change, handling null values
+    const key = this.field.key;
     const segments: any[] = [];
     const nullGaps: any[] = [];
-    let currentState = this.data[0][this.field.key];
-    let segmentStart = this.data[0].datetime;
-    let isCurrentNull = currentState === null || currentState === undefined;
+    let currentState = data.value(key, 0);
+    let segmentStart = data.date(0);
+    let isCurrentNull = currentState === null;
 
-    for (let i = 1; i < this.data.length; i++) {
-      const newState = this.data[i][this.field.key];
-      const isNewNull = newState === null || newState === undefined;
+    for (let i = 1; i < data.length; i++) {
+      const newState = data.value(key, i);
+      const isNewNull = newState === null;
       
       if (isNewNull !== isCurrentNull || (!isNewNull && String(newState) !== String(currentState))) {
         // End current segment
@@ -252,21 +452,21 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
           // Add to null gaps
           nullGaps.push({
             start: segmentStart,
-            end: this.data[i].datetime
+            end: data.date(i)
           });
         } else {
           // Add to regular segments
           segments.push({
             state: String(currentState),
             start: segmentStart,
-            end: this.data[i].datetime,
+            end: data.date(i),
             color: this.stateColorMap[String(currentState)]
           });
         }
         
         // Start new segment
         currentState = newState;
-        segmentStart = this.data[i].datetime;
+        segmentStart = data.date(i);
         isCurrentNull = isNewNull;
       }
     }
@@ -275,66 +475,18 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
     if (isCurrentNull) {
       nullGaps.push({
         start: segmentStart,
-        end: this.data[this.data.length - 1].datetime
+        end: data.date(data.length - 1)
       });
     } else {
       segments.push({
         state: String(currentState),
         start: segmentStart,
-        end: this.data[this.data.length - 1].datetime,
+        end: data.date(data.length - 1),
         color: this.stateColorMap[String(currentState)]
       });
     }
 
-    // Create a group for segments with clipping
-    let segmentGroup = this.svg.select('.segment-group');
-    if (segmentGroup.empty()) {
-      segmentGroup = this.svg.append('g')
-        .attr('class', 'segment-group')
-        .attr('clip-path', `url(#clip-${this.field.key})`);
-    }
-
-    // Remove existing segments from the group
-    segmentGroup.selectAll('.state-segment').remove();
-    segmentGroup.selectAll('.null-gap').remove();
-
-    // Draw null gaps as red background areas
-    segmentGroup.selectAll('.null-gap')
-      .data(nullGaps)
-      .enter()
-      .append('rect')
-      .attr('class', 'null-gap')
-      .attr('x', (d: any) => Math.max(0, this.xScale(d.start)))
-      .attr('y', 0)
-      .attr('width', (d: any) => {
-        const startX = Math.max(0, this.xScale(d.start));
-        const endX = Math.min(this.width, this.xScale(d.end));
-        return Math.max(1, endX - startX);
-      })
-      .attr('height', this.actualHeight)
-      .style('fill', 'rgba(255, 0, 0, 0.1)')
-      .style('stroke', 'rgba(255, 0, 0, 0.3)')
-      .style('stroke-width', 1)
-      .style('pointer-events', 'none');
-
-    // Draw regular state segments
-    segmentGroup.selectAll('.state-segment')
-      .data(segments)
-      .enter()
-      .append('rect')
-      .attr('class', 'state-segment')
-      .attr('x', (d: any) => Math.max(0, this.xScale(d.start)))
-      .attr('y', 10 + (this.actualHeight - 20) / 4)
-      .attr('width', (d: any) => {
-        const startX = Math.max(0, this.xScale(d.start));
-        const endX = Math.min(this.width, this.xScale(d.end));
-        return Math.max(1, endX - startX);
-      })
-      .attr('height', (this.actualHeight - 20) / 2)
-      .attr('fill', (d: any) => d.color)
-      .attr('opacity', 0.7)
-      .append('title')
-      .text((d: any) => `${this.field.label}: ${d.state}`);
+    return { segments, nullGaps };
   }
 
   private createLegend(): void {
@@ -385,6 +537,11 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
 
   private onBrush(event: any): void {
     if (!event.selection) {
+      // A click without a drag pins the cursor there
+      if (event.sourceEvent) {
+        const [x] = d3.pointer(event.sourceEvent, this.svg.node());
+        this.syncService.pinCursor(this.xScale.invert(x));
+      }
       return;
     }
 
@@ -405,95 +562,115 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
     const [mouseX] = d3.pointer(event);
     const date = this.xScale.invert(mouseX);
 
-    // Find closest data point
-    const bisect = d3.bisector((d: DataPoint) => d.datetime).left;
-    const index = bisect(this.data, date);
-    
-    let closestPoint: DataPoint;
-    if (index === 0) {
-      closestPoint = this.data[0];
-    } else if (index === this.data.length) {
-      closestPoint = this.data[this.data.length - 1];
-    } else {
-      const left = this.data[index - 1];
-      const right = this.data[index];
-      closestPoint = (date.getTime() - left.datetime.getTime()) > (right.datetime.getTime() - date.getTime()) ? right : left;
+    // Find closest row of each series
+    const hoverPoints = this.series
+      .map(series => ({ series, index: this.queryService.nearest(series.data, date) }))
+      .filter(hover => hover.index >= 0);
+
+    if (hoverPoints.length === 0) {
+      return;
     }
 
-    if (closestPoint) {
-      const x = this.xScale(closestPoint.datetime);
+    const distance = (hover: { series: GroupedSeries, index: number }) =>
+      Math.abs(hover.series.data.time(hover.index) - date.getTime());
+    const closest = hoverPoints.reduce((best, hover) => distance(hover) < distance(best) ? hover : best);
+    const closestPoint = closest.series.data.row(closest.index);
 
-      // Update hover line
-      this.svg.select('.hover-line')
-        .attr('x1', x)
-        .attr('x2', x)
-        .attr('y1', 0)
-        .attr('y2', this.actualHeight)
-        .style('opacity', 1);
+    const x = this.xScale(closestPoint.datetime);
 
-      // Update tooltip
-      const value = closestPoint[this.field.key];
-      const formattedDateTime = closestPoint.datetime.toLocaleString();
-      
-      // Update tooltip text elements
-      const tooltip = this.svg.select('.tooltip');
-      const datetimeElement = tooltip.select('.tooltip-datetime');
-      const valueElement = tooltip.select('.tooltip-value');
-      
-      datetimeElement.text(formattedDateTime);
-      valueElement.text(`${this.field.label}: ${value}`);
-      
-      // Get text dimensions for tooltip background
-      const datetimeBBox = (datetimeElement.node() as any)?.getBBox();
-      const valueBBox = (valueElement.node() as any)?.getBBox();
-      
-      if (datetimeBBox && valueBBox) {
-        const padding = 8;
-        const lineHeight = 16;
-        const maxWidth = Math.max(datetimeBBox.width, valueBBox.width);
-        const totalHeight = lineHeight * 2;
-        
-        const tooltipBg = tooltip.select('.tooltip-bg');
-        tooltipBg
-          .attr('width', maxWidth + padding * 2)
-          .attr('height', totalHeight + padding * 2)
-          .attr('x', -maxWidth / 2 - padding)
-          .attr('y', -totalHeight - padding);
-        
-        // Position text elements
-        datetimeElement
-          .attr('x', 0)
-          .attr('y', -totalHeight + lineHeight - padding);
-        
-        valueElement
-          .attr('x', 0)
-          .attr('y', -padding);
-      }
-      
-      // Position tooltip above the state chart
-      const tooltipX = Math.min(Math.max(x, 50), this.width - 50); // Keep within bounds
-      const tooltipY = Math.max(this.actualHeight / 2 - 20, 20); // Position in middle area
-      
-      tooltip
-        .attr('transform', `translate(${tooltipX}, ${tooltipY})`)
-        .style('opacity', 1);
-
-      // Emit hover event
-      const hoverEvent: HoverEvent = {
-        dataPoint: closestPoint,
-        x: event.clientX,
-        y: event.clientY
-      };
-      this.syncService.emitHover(hoverEvent);
-    }
+    // The hover line is drawn from hover$, like on every other chart
+
+    // Update tooltip: the datetime, then one value line per series
+    const valueLines = hoverPoints.map(hover => hover.series.group
+      ? `${hover.series.group.value}: ${hover.series.data.value(this.field.key, hover.index)}`
+      : `${this.field.label}: ${hover.series.data.value(this.field.key, hover.index)}`);
+
+    const tooltip = this.svg.select('.tooltip');
+    const datetimeElement = tooltip.select('.tooltip-datetime');
+    datetimeElement.text(closestPoint.datetime.toLocaleString());
+
+    const valueElements = tooltip.select('.tooltip-values')
+      .selectAll('text')
+      .data(valueLines)
+      .join('text')
+      .style('fill', (_: string, i: number) => hoverPoints[i].series.group?.color ?? 'white')
+      .style('font-size', '12px')
+      .style('font-weight', 'bold')
+      .style('text-anchor', 'middle')
+      .style('pointer-events', 'none')
+      .text((line: string) => line);
+
+    // Get text dimensions for tooltip background
+    const padding = 8;
+    const lineHeight = 16;
+    const widths = [datetimeElement.node(), ...valueElements.nodes()]
+      .map((node: any) => node?.getBBox()?.width ?? 0);
+    const maxWidth = Math.max(...widths);
+    const totalHeight = lineHeight * (valueLines.length + 1);
+
+    tooltip.select('.tooltip-bg')
+      .attr('width', maxWidth + padding * 2)
+      .attr('height', totalHeight + padding * 2)
+      .attr('x', -maxWidth / 2 - padding)
+      .attr('y', -totalHeight - padding);
+
+    // Position text elements
+    datetimeElement
+      .attr('x', 0)
+      .attr('y', -totalHeight + lineHeight - padding);
+
+    valueElements
+      .attr('x', 0)
+      .attr('y', (_: string, i: number) => -totalHeight + lineHeight * (i + 2) - padding);
+
+    // Position tooltip above the state chart
+    const tooltipX = Math.min(Math.max(x, 50), this.width - 50); // Keep within bounds
+    const tooltipY = Math.max(this.actualHeight / 2 - 20, 20); // Position in middle area
+
+    tooltip
+      .attr('transform', `translate(${tooltipX}, ${tooltipY})`)
+      .style('opacity', 1);
+
+    // Emit hover event
+    const hoverEvent: HoverEvent = {
+      dataPoint: closestPoint,
+      x: event.clientX,
+      y: event.clientY
+    };
+    this.syncService.emitHover(hoverEvent);
   }
 
   private onMouseLeave(): void {
-    this.svg.select('.hover-line').style('opacity', 0);
     this.svg.select('.tooltip').style('opacity', 0);
     this.syncService.emitHover(null);
   }
 
+  /** Draw the shared cursor line at the hovered time. */
+  private showCursor(time: Date | null): void {
+    this.drawTimeLine('.hover-line', time);
+  }
+
+  private updatePinLine(): void {
+    this.drawTimeLine('.pin-line', this.pinnedTime);
+  }
+
+  private drawTimeLine(selector: string, time: Date | null): void {
+    if (!this.svg) {
+      return;
+    }
+    const x = time && this.data.length > 0 ? this.xScale(time) : NaN;
+    if (!(x >= 0 && x <= this.width)) {
+      this.svg.select(selector).style('opacity', 0);
+      return;
+    }
+    this.svg.select(selector)
+      .attr('x1', x)
+      .attr('x2', x)
+      .attr('y1', 0)
+      .attr('y2', this.actualHeight)
+      .style('opacity', 1);
+  }
+
   private applyZoom(timeRange: TimeRange): void {
     this.xScale.domain([timeRange.start, timeRange.end]);
     
@@ -531,7 +708,7 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
   }
 
   private resetZoom(): void {
-    const timeExtent = d3.extent(this.data, d => d.datetime) as [Date, Date];
+    const timeExtent = this.timeExtent();
     this.xScale.domain(timeExtent);
     
     // Reset to original time formatting
@@ -564,4 +741,4 @@ export class StateChartComponent implements OnInit, OnDestroy, OnChanges {
     this.svg.select('.brush').call(this.brush.move, null);
     this.currentTimeRange = null;
   }
-}
\ No newline at end of file
+}
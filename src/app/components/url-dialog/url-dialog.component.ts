@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { MatDialogRef } from '@angular/material/dialog';
+
+@Component({
+  selector: 'app-url-dialog',
+  templateUrl: './url-dialog.component.html',
+  styleUrls: ['./url-dialog.component.scss']
+})
+export class UrlDialogComponent {
+  constructor(private dialogRef: MatDialogRef<UrlDialogComponent, string | null>) {}
+
+  onConfirm(url: string): void {
+    if (url.trim() !== '') {
+      this.dialogRef.close(url.trim());
+    }
+  }
+
+  onCancel(): void {
+    this.dialogRef.close(null);
+  }
+}
@@ -0,0 +1,77 @@
+import { Component, Input } from '@angular/core';
+import { ThresholdViolation } from '../../models/data.model';
+import { SyncService } from '../../services/sync.service';
+import { UnitService } from '../../services/unit.service';
+import { THRESHOLD_COLORS } from '../../utils/thresholds';
+
+// Time shown either side of a violation when zooming to it
+const ZOOM_PADDING_MS = 5000;
+
+// Noisy data can break a limit thousands of times; only the first are listed
+const MAX_LISTED = 200;
+
+@Component({
+  selector: 'app-violation-list',
+  templateUrl: './violation-list.component.html',
+  styleUrls: ['./violation-list.component.scss']
+})
+export class ViolationListComponent {
+  @Input() violations: ThresholdViolation[] = [];
+
+  expanded = false;
+  colors = THRESHOLD_COLORS;
+  maxListed = MAX_LISTED;
+
+  constructor(
+    private syncService: SyncService,
+    private unitService: UnitService
+  ) {}
+
+  toggleExpanded(): void {
+    this.expanded = !this.expanded;
+  }
+
+  /** Zoom every chart to a violation, with some context around it. */
+  onSelect(violation: ThresholdViolation): void {
+    const duration = violation.end.getTime() - violation.start.getTime();
+    const padding = Math.max(duration / 2, ZOOM_PADDING_MS);
+    let start = violation.start.getTime() - padding;
+    let end = violation.end.getTime() + padding;
+    const bounds = this.syncService.getDataBounds();
+    if (bounds) {
+      start = Math.max(start, bounds.start.getTime());
+      end = Math.min(end, bounds.end.getTime());
+    }
+    this.syncService.emitZoom({ start: new Date(start), end: new Date(end) });
+  }
+
+  label(violation: ThresholdViolation): string {
+    return violation.group === null ? violation.field.label : `${violation.group} ${violation.field.label}`;
+  }
+
+  limitLabel(violation: ThresholdViolation): string {
+    const { direction, severity, value } = violation.threshold;
+    const unit = this.unitService.displayUnit(violation.field);
+    const limit = `${severity} ${direction === 'upper' ? '>' : '<'} ${Number(value.toPrecision(6))}`;
+    return unit ? `${limit} ${unit}` : limit;
+  }
+
+  formatPeak(violation: ThresholdViolation): string {
+    const unit = this.unitService.displayUnit(violation.field);
+    return unit ? `${violation.peak.toFixed(2)} ${unit}` : violation.peak.toFixed(2);
+  }
+
+  formatDuration(violation: ThresholdViolation): string {
+    const ms = violation.end.getTime() - violation.start.getTime();
+    if (ms === 0) {
+      return 'one sample';
+    }
+    if (ms < 60 * 1000) {
+      return `${(ms / 1000).toFixed(ms < 10 * 1000 ? 2 : 1)} s`;
+    }
+    if (ms < 60 * 60 * 1000) {
+      return `${(ms / 60000).toFixed(1)} min`;
+    }
+    return `${(ms / 3600000).toFixed(1)} h`;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  ColumnStoreData, CsvMetadata, PlotField, ParseProgress, DateTimeOptions, ColumnMappingRequest, DataQualityReport,
+  DuplicatePolicy, InputFormat
+} from './data.model';
+
+// Messages exchanged between CsvService and the parser worker.
+// A parse runs in two steps: 'parse' reads and analyzes the file and answers
+// with 'analyzed'; 'build' then turns the kept rows into data points using
+// the confirmed column mapping and answers with 'result'.
+
+export interface CsvWorkerParseRequest {
+  type: 'parse';
+  file: File;
+  format: InputFormat; // 'auto' detects the format from the file name and content
+}
+
+export interface CsvWorkerBuildRequest {
+  type: 'build';
+  mapping: CsvMetadata;
+  dateTimeOptions: DateTimeOptions;
+  duplicatePolicy: DuplicatePolicy;
+}
+
+export type CsvWorkerRequest = CsvWorkerParseRequest | CsvWorkerBuildRequest;
+
+export interface CsvWorkerProgressMessage {
+  type: 'progress';
+  progress: ParseProgress;
+}
+
+export interface CsvWorkerAnalyzedMessage {
+  type: 'analyzed';
+  request: ColumnMappingRequest;
+}
+
+export interface CsvWorkerResultMessage {
+  type: 'result';
+  data: ColumnStoreData;
+  metadata: CsvMetadata;
+  fields: PlotField[];
+  quality: DataQualityReport;
+}
+
+export interface CsvWorkerErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type CsvWorkerResponse =
+  CsvWorkerProgressMessage | CsvWorkerAnalyzedMessage | CsvWorkerResultMessage | CsvWorkerErrorMessage;
@@ -1,3 +1,5 @@
+import type { ColumnStore } from '../utils/column-store';
+
 export interface DataPoint {
   datetime: Date;
   latitude: number;
@@ -5,14 +7,98 @@ export interface DataPoint {
   [key: string]: any; // Allow dynamic fields
 }
 
+// Plain column arrays behind a ColumnStore, in a form that can be posted
+// from the worker or kept in IndexedDB. Numeric columns hold NaN where a
+// value is missing; text columns are dictionary-encoded with -1 for missing.
+export interface ColumnStoreData {
+  times: Float64Array; // Epoch milliseconds, ascending
+  numeric: { [key: string]: Float64Array };
+  text: { [key: string]: TextColumn };
+}
+
+export interface TextColumn {
+  codes: Int32Array; // Index into the dictionary, -1 for a missing value
+  dictionary: string[];
+}
+
 export interface PlotField {
   key: string;
   label: string;
   selected: boolean;
   color: string;
-  dataType: 'number' | 'string' | 'date';
+  dataType: 'number' | 'integer' | 'boolean' | 'enum' | 'string' | 'date';
+  chartType: 'line' | 'state'; // Chart used to draw the field
+  unit: string | null; // Unit the values were recorded in, e.g. 'mph'
+  yAxis?: YAxisSettings; // Set once the user changes the field's axis
+  thresholds?: FieldThreshold[];
+}
+
+// A column computed from other columns, e.g. `speed * 1.609`
+export interface DerivedFieldDefinition {
+  key: string; // Also the name other formulas refer to it by
+  expression: string;
+  unit: string | null;
+}
+
+export type YAxisSide = 'left' | 'right';
+
+// How the y-axis range follows the data: fit the visible rows, fit them
+// with zero included, fit all rows whatever the zoom, or fixed limits
+export type YAxisMode = 'auto' | 'include-zero' | 'full' | 'fixed';
+
+export type YAxisScale = 'linear' | 'log' | 'symlog';
+
+export interface YAxisSettings {
+  mode: YAxisMode;
+  scale: YAxisScale;
+  min: number | null; // Fixed limits in the field's recorded unit; null fits that end
+  max: number | null;
+}
+
+export const DEFAULT_Y_AXIS_SETTINGS: YAxisSettings = { mode: 'auto', scale: 'linear', min: null, max: null };
+
+export type ThresholdDirection = 'upper' | 'lower';
+export type ThresholdSeverity = 'warning' | 'critical';
+
+// A limit on a field's values, in the unit they were recorded in so it holds
+// under any unit system. Values above an upper limit or below a lower one
+// violate it.
+export interface FieldThreshold {
+  direction: ThresholdDirection;
+  severity: ThresholdSeverity;
+  value: number;
+}
+
+// A run of consecutive rows beyond a threshold
+export interface ThresholdViolation {
+  field: PlotField;
+  group: string | null; // Group value, or null for ungrouped data
+  threshold: FieldThreshold; // With its limit in display units
+  start: Date;
+  end: Date; // Time of the last row beyond the limit
+  peak: number; // Value furthest beyond the limit, in display units
 }
 
+// Line fields drawn together on one chart. State fields always have a panel
+// of their own.
+export interface ChartPanel {
+  id: string;
+  fields: PlotField[];
+  axes: { [fieldKey: string]: YAxisSide }; // Fields not listed use the left axis
+  overlays: SmoothingOverlay[]; // Drawn for every field of the panel
+}
+
+export type SmoothingMethod = 'moving-average' | 'exponential' | 'median' | 'envelope';
+
+// A smoothed line or min/max band drawn over the raw values
+export interface SmoothingOverlay {
+  method: SmoothingMethod;
+  window: number;
+  windowUnit: 'samples' | 'seconds';
+}
+
+export const DEFAULT_SMOOTHING_OVERLAY: SmoothingOverlay = { method: 'moving-average', window: 10, windowUnit: 'samples' };
+
 export interface TimeRange {
   start: Date;
   end: Date;
@@ -28,6 +114,23 @@ export interface ZoomEvent {
   timeRange: TimeRange;
 }
 
+export interface ZoomHistoryState {
+  canGoBack: boolean;
+  canGoForward: boolean;
+}
+
+// Splitting the data into one series per value of an ID column
+export interface SeriesGroup {
+  value: string;
+  color: string;
+  visible: boolean;
+}
+
+export interface SeriesGrouping {
+  field: string;
+  groups: SeriesGroup[];
+}
+
 export interface CsvMetadata {
   headers: string[];
   numericFields: string[];
@@ -35,6 +138,119 @@ export interface CsvMetadata {
   dateTimeField: string | null;
   latitudeField: string | null;
   longitudeField: string | null;
+  excludedFields: string[];
+  dateTimeFormat: DateTimeFormat | null; // Format actually used to read the time column
+  invalidTimestampRows: number[]; // 1-based data row numbers skipped because the time could not be parsed
+  fieldUnits: { [column: string]: string }; // Units of numeric columns, detected or set by hand
+  inputFormat: InputFormat; // Format the file was read as
+}
+
+// One loaded file. Its data and fields are kept un-namespaced; keys are
+// prefixed with the source id only when several sources are merged.
+export interface DataSource {
+  id: string;
+  fileName: string;
+  file: File | null; // Null for datasets reopened from local storage, which cannot be parsed again
+  data: ColumnStore;
+  metadata: CsvMetadata;
+  fields: PlotField[];
+  quality: DataQualityReport;
+}
+
+// A parsed dataset kept in local storage, listed under recent files
+export interface RecentDataset {
+  id: string;
+  fileName: string;
+  fileSize: number; // Size of the original file in bytes
+  rowCount: number;
+  start: number | null; // First and last timestamps in epoch ms; null without rows
+  end: number | null;
+  storedBytes: number; // Approximate space taken in storage
+  savedAt: number;
+  openedAt: number;
+}
+
+// Problems found while building a file into data points. Row numbers are
+// 1-based data row numbers (the header row is not counted).
+export interface DataQualityReport {
+  rowCount: number; // Data rows in the file
+  wrongColumnCountRows: number[]; // Rows with more or fewer cells than the header
+  invalidTimestampRows: number[];
+  outOfOrderTimestamps: number; // Rows whose time is earlier than the row before
+  duplicateTimestamps: number; // Rows repeating a time already seen
+  droppedDuplicateRows: number; // Rows removed or averaged away by the duplicate policy
+  columns: ColumnQuality[];
+  invalidCoordinateRows: number; // Rows with missing, out-of-range or 0,0 positions
+  samplingInterval: SamplingIntervalStats | null; // Null with fewer than two distinct times
+}
+
+export interface ColumnQuality {
+  column: string;
+  nullPercent: number;
+}
+
+export interface SamplingIntervalStats {
+  minMs: number;
+  medianMs: number;
+  meanMs: number;
+  maxMs: number;
+}
+
+export interface MergeOptions {
+  mode: 'nearest' | 'exact';
+  toleranceMs: number; // Maximum time difference for 'nearest' matching
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+  mode: 'nearest',
+  toleranceMs: 1000
+};
+
+// Proposed column mapping shown to the user before a file is built into data points
+export interface ColumnMappingRequest {
+  fileName: string;
+  metadata: CsvMetadata;
+  numericColumns: string[]; // Columns whose values are all numbers (or null)
+  previewRows: string[][];
+}
+
+export type InputFormat = 'auto' | 'csv' | 'tsv' | 'semicolon' | 'jsonl' | 'gpx' | 'nmea';
+
+export type DateTimeFormat = 'auto' | 'iso' | 'mdy' | 'dmy' | 'epoch-s' | 'epoch-ms' | 'elapsed';
+
+export interface DateTimeOptions {
+  format: DateTimeFormat;
+  timeZone: string; // 'local', 'UTC' or an IANA zone such as 'America/Chicago'
+}
+
+export const DEFAULT_DATETIME_OPTIONS: DateTimeOptions = {
+  format: 'auto',
+  timeZone: 'local'
+};
+
+// Unit system values are shown in; 'source' keeps each field's recorded unit
+export type UnitSystem = 'source' | 'imperial' | 'metric';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'source';
+
+// How line charts thin out rows when there are more than pixels to draw them
+export type DecimationMethod = 'min-max' | 'lttb';
+
+export const DEFAULT_DECIMATION_METHOD: DecimationMethod = 'min-max';
+
+// How rows that share a timestamp are collapsed once the data is sorted by time.
+// 'keep-all' leaves them in place, e.g. for logs with one row per vehicle per second.
+export type DuplicatePolicy = 'keep-first' | 'keep-last' | 'average' | 'keep-all';
+
+// Collapsing is opt-in: the ID column that tells vehicles apart is only chosen
+// after parsing, so collapsing by time alone would merge different vehicles
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'keep-all';
+
+export interface ParseProgress {
+  fileName: string;
+  stage: 'reading' | 'analyzing' | 'building';
+  rowsParsed: number;
+  percent: number;
 }
 
 // Default color palette for charts
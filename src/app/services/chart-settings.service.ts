@@ -0,0 +1,23 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { DecimationMethod, DEFAULT_DECIMATION_METHOD } from '../models/data.model';
+
+/**
+ * Display options shared by every chart.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ChartSettingsService {
+  private decimationSubject = new BehaviorSubject<DecimationMethod>(DEFAULT_DECIMATION_METHOD);
+
+  public decimation$ = this.decimationSubject.asObservable();
+
+  public setDecimation(method: DecimationMethod): void {
+    this.decimationSubject.next(method);
+  }
+
+  public getDecimation(): DecimationMethod {
+    return this.decimationSubject.value;
+  }
+}
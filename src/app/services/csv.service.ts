@@ -1,199 +1,369 @@
 import { Injectable } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { BehaviorSubject, Observable } from 'rxjs';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
 import { map } from 'rxjs/operators';
-import { DataPoint, CsvMetadata, PlotField, DEFAULT_COLORS } from '../models/data.model';
+import {
+  CsvMetadata, PlotField, ParseProgress, DateTimeOptions, ColumnMappingRequest, DataSource, MergeOptions,
+  DuplicatePolicy, InputFormat, DerivedFieldDefinition, DEFAULT_DATETIME_OPTIONS, DEFAULT_MERGE_OPTIONS, DEFAULT_DUPLICATE_POLICY
+} from '../models/data.model';
+import { CsvWorkerRequest, CsvWorkerResponse } from '../models/csv-worker.model';
+import { readRows, resolveReader } from '../utils/readers';
+import { buildDataset, createMappingRequest, ParsedCsv } from '../utils/csv-parser';
+import { createSourceId, mergeSources, MergedDataset } from '../utils/merge-sources';
+import { ColumnStore } from '../utils/column-store';
+import { addDerivedField, FormulaError } from '../utils/formula';
+import { DatasetStoreService } from './dataset-store.service';
+
+/** Confirms or edits the detected column mapping; null cancels the load. */
+export type ColumnMapper = (request: ColumnMappingRequest) => Promise<CsvMetadata | null>;
+
+const acceptDetectedMapping: ColumnMapper = request => Promise.resolve(request.metadata);
+
+/** Reuses an earlier mapping when the file still has the same columns. */
+function keepMapping(mapping: CsvMetadata): ColumnMapper {
+  return request => {
+    const sameColumns = mapping.headers.join('\u0000') === request.metadata.headers.join('\u0000');
+    return Promise.resolve(sameColumns ? mapping : request.metadata);
+  };
+}
+
+function fileNameFromUrl(url: string): string {
+  const path = new URL(url, document.baseURI).pathname;
+  const name = decodeURIComponent(path.slice(path.lastIndexOf('/') + 1));
+  return name || 'download.csv';
+}
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('CSV parsing was cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
 
 @Injectable({
   providedIn: 'root'
 })
 export class CsvService {
-  private dataSubject = new BehaviorSubject<DataPoint[]>([]);
+  private dataSubject = new BehaviorSubject<ColumnStore>(ColumnStore.empty());
   private metadataSubject = new BehaviorSubject<CsvMetadata | null>(null);
   private availableFieldsSubject = new BehaviorSubject<PlotField[]>([]);
-  
+  private progressSubject = new BehaviorSubject<ParseProgress | null>(null);
+  private dateTimeOptionsSubject = new BehaviorSubject<DateTimeOptions>(DEFAULT_DATETIME_OPTIONS);
+  private sourcesSubject = new BehaviorSubject<DataSource[]>([]);
+  private mergeOptionsSubject = new BehaviorSubject<MergeOptions>(DEFAULT_MERGE_OPTIONS);
+  private duplicatePolicySubject = new BehaviorSubject<DuplicatePolicy>(DEFAULT_DUPLICATE_POLICY);
+  private inputFormatSubject = new BehaviorSubject<InputFormat>('auto');
+  private derivedFieldsSubject = new BehaviorSubject<DerivedFieldDefinition[]>([]);
+  private activeWorker: Worker | null = null;
+  private rejectActiveParse: ((reason: unknown) => void) | null = null;
+
   public data$ = this.dataSubject.asObservable();
   public metadata$ = this.metadataSubject.asObservable();
   public availableFields$ = this.availableFieldsSubject.asObservable();
+  public progress$ = this.progressSubject.asObservable();
+  public dateTimeOptions$ = this.dateTimeOptionsSubject.asObservable();
+  public sources$ = this.sourcesSubject.asObservable();
+  public mergeOptions$ = this.mergeOptionsSubject.asObservable();
+  public duplicatePolicy$ = this.duplicatePolicySubject.asObservable();
+  public inputFormat$ = this.inputFormatSubject.asObservable();
+  public derivedFields$ = this.derivedFieldsSubject.asObservable();
 
-  constructor(private http: HttpClient) {
+  constructor(private http: HttpClient, private datasetStore: DatasetStoreService) {
     // No automatic data loading - only through user upload
   }
 
 
 
-  public parseFile(file: File): Promise<DataPoint[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const csvText = e.target?.result as string;
-          const result = this.parseCsv(csvText);
-          this.dataSubject.next(result.data);
-          this.metadataSubject.next(result.metadata);
-          this.availableFieldsSubject.next(result.fields);
-          resolve(result.data);
-        } catch (error) {
-          reject(error);
-        }
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsText(file);
-    });
+  /**
+   * Parse a file, replacing every loaded source. Once the file has been
+   * read and analyzed, `mapColumns` is asked to confirm or change the
+   * detected column roles; resolving it with null cancels the load. Without
+   * a mapper the detected roles are used.
+   */
+  public parseFile(file: File, mapColumns: ColumnMapper = acceptDetectedMapping): Promise<ColumnStore> {
+    return this.loadSource(file, mapColumns, createSourceId(file.name, []))
+      .then(source => {
+        this.setSources([source]);
+        this.storeSource(source);
+        return this.getCurrentData();
+      });
   }
 
-  private parseCsv(csvText: string): { data: DataPoint[], metadata: CsvMetadata, fields: PlotField[] } {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',').map(h => h.trim());
-    
-    // Analyze data to detect field types
-    const metadata = this.analyzeHeaders(headers, lines.slice(1));
-    
-    // Parse data points
-    const data = lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim());
-      const dataPoint: any = {};
-      
-      headers.forEach((header, index) => {
-        const value = values[index];
-        
-        if (header === metadata.dateTimeField) {
-          dataPoint['datetime'] = new Date(value);
-        } else if (header === metadata.latitudeField) {
-          const lat = parseFloat(value);
-          dataPoint['latitude'] = lat;
-        } else if (header === metadata.longitudeField) {
-          const lng = parseFloat(value);
-          dataPoint['longitude'] = lng;
-        } else if (metadata.numericFields.includes(header)) {
-          // Handle null/empty values in numeric fields
-          if (value === '' || value === 'null' || value === 'NULL' || value === 'undefined') {
-            dataPoint[header] = null;
-          } else {
-            const numValue = parseFloat(value);
-            dataPoint[header] = isNaN(numValue) ? null : numValue;
-          }
-        } else {
-          dataPoint[header] = value;
-        }
+  /**
+   * Parse a file and merge it with the sources already loaded.
+   */
+  public addFile(file: File, mapColumns: ColumnMapper = acceptDetectedMapping): Promise<ColumnStore> {
+    const existingIds = this.sourcesSubject.value.map(source => source.id);
+    return this.loadSource(file, mapColumns, createSourceId(file.name, existingIds))
+      .then(source => {
+        this.setSources([...this.sourcesSubject.value, source]);
+        this.storeSource(source);
+        return this.getCurrentData();
       });
-      
-      return dataPoint as DataPoint;
-    });
+  }
 
-    // Create available fields for plotting (numeric and categorical fields, excluding lat/lng)
-    const numericPlotFields = metadata.numericFields
-      .filter(field => field !== metadata.latitudeField && field !== metadata.longitudeField)
-      .map((field, index) => ({
-        key: field,
-        label: this.formatFieldLabel(field),
-        selected: index < 2, // Auto-select first 2 numeric fields
-        color: DEFAULT_COLORS[index % DEFAULT_COLORS.length],
-        dataType: 'number' as const
-      }));
-
-    const categoricalPlotFields = metadata.categoricalFields
-      .map((field, index) => ({
-        key: field,
-        label: this.formatFieldLabel(field),
-        selected: index < 1, // Auto-select first categorical field
-        color: DEFAULT_COLORS[(numericPlotFields.length + index) % DEFAULT_COLORS.length],
-        dataType: 'string' as const
-      }));
-
-    const fields = [...numericPlotFields, ...categoricalPlotFields];
-
-    return { data, metadata, fields };
-  }
-
-  private analyzeHeaders(headers: string[], dataLines: string[]): CsvMetadata {
-    const numericFields: string[] = [];
-    const categoricalFields: string[] = [];
-    let dateTimeField: string | null = null;
-    let latitudeField: string | null = null;
-    let longitudeField: string | null = null;
-
-    // Analyze each header
-    headers.forEach((header, index) => {
-      const lowerHeader = header.toLowerCase();
-      
-      // Check for datetime field
-      if (!dateTimeField && (lowerHeader.includes('date') || lowerHeader.includes('time'))) {
-        dateTimeField = header;
-        return;
-      }
-      
-      // Check for latitude field
-      if (!latitudeField && (lowerHeader.includes('lat') || lowerHeader === 'y')) {
-        latitudeField = header;
-        return;
-      }
-      
-      // Check for longitude field
-      if (!longitudeField && (lowerHeader.includes('lon') || lowerHeader.includes('lng') || lowerHeader === 'x')) {
-        longitudeField = header;
-        return;
-      }
-      
-      // Check if field is numeric by testing sample values
-      if (this.isNumericField(index, dataLines)) {
-        numericFields.push(header);
-      } else {
-        // If not numeric, datetime, lat, or lng, it's categorical
-        categoricalFields.push(header);
+  /**
+   * Reopen a dataset kept in local storage, replacing every loaded source.
+   * It is shown as it was parsed; changing time options does not re-read it.
+   */
+  public openStoredDataset(id: string): Promise<ColumnStore> {
+    return this.datasetStore.open(id)
+      .then(stored => {
+        this.setSources([{ id: createSourceId(stored.fileName, []), ...stored }]);
+        return this.getCurrentData();
+      });
+  }
+
+  /**
+   * Fetch a data file over HTTP, e.g. from an intranet server or a bundled
+   * asset such as `assets/data.csv`, so it can be loaded like an upload.
+   */
+  public fetchFile(url: string): Promise<File> {
+    return firstValueFrom(this.http.get(url, { responseType: 'blob' }))
+      .then(blob => new File([blob], fileNameFromUrl(url), { type: blob.type }));
+  }
+
+  /**
+   * Wrap pasted text in a file so it goes through the same readers as an
+   * upload. The format is detected from the content.
+   */
+  public createFileFromText(text: string, fileName: string = 'clipboard.txt'): File {
+    return new File([text], fileName, { type: 'text/plain' });
+  }
+
+  public removeSource(id: string): void {
+    this.setSources(this.sourcesSubject.value.filter(source => source.id !== id));
+  }
+
+  /**
+   * Choose how files loaded from now on are read. 'auto' detects the format
+   * from the file name and content; loaded sources keep their format.
+   */
+  public setInputFormat(format: InputFormat): void {
+    this.inputFormatSubject.next(format);
+  }
+
+  public setMergeOptions(options: MergeOptions): void {
+    this.mergeOptionsSubject.next(options);
+    this.publishSources(this.sourcesSubject.value);
+  }
+
+  /**
+   * Change how time columns are read. Every loaded source is parsed again
+   * with the new options, keeping its confirmed column mapping.
+   */
+  public setDateTimeOptions(options: DateTimeOptions): Promise<ColumnStore> {
+    this.dateTimeOptionsSubject.next(options);
+    return this.reloadSources();
+  }
+
+  /**
+   * Change how rows sharing a timestamp are collapsed. Every loaded source
+   * is parsed again with the new policy.
+   */
+  public setDuplicatePolicy(policy: DuplicatePolicy): Promise<ColumnStore> {
+    this.duplicatePolicySubject.next(policy);
+    return this.reloadSources();
+  }
+
+  /**
+   * Add a field computed with a formula over the loaded columns. It is
+   * published like a file column and computed again whenever the data
+   * changes. Throws a FormulaError when the formula fails on the loaded data.
+   */
+  public addDerivedField(definition: DerivedFieldDefinition): void {
+    const metadata = this.metadataSubject.value;
+    if (!metadata) {
+      throw new FormulaError('Load data before adding derived fields');
+    }
+    // Try it now so mistakes are reported to the editor rather than skipped
+    addDerivedField({ data: this.dataSubject.value, metadata, fields: this.availableFieldsSubject.value }, definition);
+    this.derivedFieldsSubject.next([...this.derivedFieldsSubject.value, definition]);
+    this.publishSources(this.sourcesSubject.value);
+  }
+
+  public removeDerivedField(key: string): void {
+    this.derivedFieldsSubject.next(this.derivedFieldsSubject.value.filter(definition => definition.key !== key));
+    this.publishSources(this.sourcesSubject.value);
+  }
+
+  private reloadSources(): Promise<ColumnStore> {
+    // Parse one source at a time; only one worker runs at once
+    let reparsed = Promise.resolve<DataSource[]>([]);
+    for (const source of this.sourcesSubject.value) {
+      reparsed = reparsed.then(done =>
+        // Reopened datasets have no file to read again and are kept as they are
+        source.file
+          ? this.loadSource(source.file, keepMapping(source.metadata), source.id, source.metadata.inputFormat)
+            .then(updated => [...done, updated])
+          : [...done, source]
+      );
+    }
+
+    return reparsed.then(sources => {
+      if (sources.length > 0) {
+        this.setSources(sources);
       }
+      return this.getCurrentData();
     });
+  }
+
+  private loadSource(file: File, mapColumns: ColumnMapper, id: string,
+    format: InputFormat = this.inputFormatSubject.value): Promise<DataSource> {
+    // Only one file is parsed at a time
+    this.cancelParse();
 
-    return {
-      headers,
-      numericFields,
-      categoricalFields,
-      dateTimeField,
-      latitudeField,
-      longitudeField
-    };
-  }
-
-  private isNumericField(columnIndex: number, dataLines: string[]): boolean {
-    // Check ALL data in the column to determine if it's purely numeric (with possible nulls)
-    let hasStringData = false;
-    let hasNumericData = false;
-    let totalValues = 0;
-    
-    for (const line of dataLines) {
-      const values = line.split(',');
-      if (values[columnIndex]) {
-        const value = values[columnIndex].trim();
-        totalValues++;
-        
-        // Skip empty/null values for type detection
-        if (value !== '' && value !== 'null' && value !== 'NULL' && value !== 'undefined') {
-          if (!isNaN(parseFloat(value)) && isFinite(parseFloat(value))) {
-            hasNumericData = true;
-          } else {
-            hasStringData = true;
-          }
+    const dateTimeOptions = this.dateTimeOptionsSubject.value;
+    const duplicatePolicy = this.duplicatePolicySubject.value;
+    const parse = typeof Worker !== 'undefined'
+      ? this.parseInWorker(file, format, dateTimeOptions, duplicatePolicy, mapColumns)
+      : this.parseOnMainThread(file, format, dateTimeOptions, duplicatePolicy, mapColumns);
+
+    return parse
+      .then(result => ({ id, fileName: file.name, file, ...result }))
+      .finally(() => {
+        // A newer parse may already be reporting progress
+        if (!this.activeWorker) {
+          this.progressSubject.next(null);
         }
+      });
+  }
+
+  private storeSource(source: DataSource): void {
+    // Storage is best-effort; a full or unavailable store must not fail a load
+    this.datasetStore.save(source)
+      .catch(error => console.warn('Could not store dataset locally:', error));
+  }
+
+  private setSources(sources: DataSource[]): void {
+    this.sourcesSubject.next(sources);
+    this.publishSources(sources);
+  }
+
+  private publishSources(sources: DataSource[]): void {
+    // A single file is shown as-is; several files are merged onto one timeline
+    let dataset: MergedDataset | null;
+    if (sources.length === 0) {
+      dataset = null;
+    } else if (sources.length === 1) {
+      dataset = sources[0];
+    } else {
+      dataset = mergeSources(sources, this.mergeOptionsSubject.value);
+    }
+    if (dataset) {
+      dataset = this.withDerivedFields(dataset);
+    }
+
+    this.dataSubject.next(dataset ? dataset.data : ColumnStore.empty());
+    this.metadataSubject.next(dataset ? dataset.metadata : null);
+    this.availableFieldsSubject.next(dataset ? dataset.fields : []);
+  }
+
+  private withDerivedFields(dataset: MergedDataset): MergedDataset {
+    // A formula can stop working, e.g. when a file without its columns is loaded
+    return this.derivedFieldsSubject.value.reduce((current, definition) => {
+      try {
+        return addDerivedField(current, definition);
+      } catch (error) {
+        console.warn(`Derived field ${definition.key} skipped:`, error);
+        return current;
       }
+    }, dataset);
+  }
+
+  public cancelParse(): void {
+    if (this.activeWorker) {
+      this.activeWorker.terminate();
+      this.activeWorker = null;
+    }
+
+    if (this.rejectActiveParse) {
+      this.rejectActiveParse(new ParseCancelledError());
+      this.rejectActiveParse = null;
     }
-    
-    // A field is numeric if:
-    // 1. It has numeric data
-    // 2. It has NO string data (only numbers and nulls)
-    // 3. We have enough data to analyze
-    const isNumeric = hasNumericData && !hasStringData && totalValues > 0;
-    
-    return isNumeric;
   }
 
-  private formatFieldLabel(fieldName: string): string {
-    return fieldName
-      .replace(/_/g, ' ')
-      .replace(/([a-z])([A-Z])/g, '$1 $2')
-      .replace(/\b\w/g, l => l.toUpperCase());
+  private parseInWorker(file: File, format: InputFormat, dateTimeOptions: DateTimeOptions,
+    duplicatePolicy: DuplicatePolicy, mapColumns: ColumnMapper): Promise<ParsedCsv> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./csv.worker', import.meta.url), { type: 'module' });
+      this.activeWorker = worker;
+      this.rejectActiveParse = reject;
+
+      const send = (request: CsvWorkerRequest) => worker.postMessage(request);
+
+      const finish = () => {
+        worker.terminate();
+        if (this.activeWorker === worker) {
+          this.activeWorker = null;
+          this.rejectActiveParse = null;
+        }
+      };
+
+      worker.onmessage = ({ data }: MessageEvent<CsvWorkerResponse>) => {
+        switch (data.type) {
+          case 'progress':
+            this.progressSubject.next(data.progress);
+            break;
+          case 'analyzed':
+            // Hide progress while the column mapping is being reviewed
+            this.progressSubject.next(null);
+            mapColumns(data.request).then(mapping => {
+              if (this.activeWorker !== worker) {
+                return;
+              }
+              if (!mapping) {
+                this.cancelParse();
+                return;
+              }
+              send({ type: 'build', mapping, dateTimeOptions, duplicatePolicy });
+            }, error => {
+              finish();
+              reject(error);
+            });
+            break;
+          case 'result':
+            finish();
+            resolve({ data: new ColumnStore(data.data), metadata: data.metadata, fields: data.fields, quality: data.quality });
+            break;
+          case 'error':
+            finish();
+            reject(new Error(data.message));
+            break;
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message));
+      };
+
+      this.progressSubject.next({ fileName: file.name, stage: 'reading', rowsParsed: 0, percent: 0 });
+      send({ type: 'parse', file, format });
+    });
+  }
+
+  private parseOnMainThread(file: File, format: InputFormat, dateTimeOptions: DateTimeOptions,
+    duplicatePolicy: DuplicatePolicy, mapColumns: ColumnMapper): Promise<ParsedCsv> {
+    // Fallback for environments without Web Worker support
+    return new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(file);
+    }).then(text => {
+      const reader = resolveReader(format, file.name, text.slice(0, 4096));
+      const rows = readRows(reader, text);
+      return mapColumns(createMappingRequest(file.name, rows, reader.format)).then(mapping => {
+        if (!mapping) {
+          throw new ParseCancelledError();
+        }
+        return buildDataset(rows, mapping, dateTimeOptions, duplicatePolicy);
+      });
+    });
   }
 
-  public getCurrentData(): DataPoint[] {
+  public getCurrentData(): ColumnStore {
     return this.dataSubject.value;
   }
 }
@@ -0,0 +1,86 @@
+/// <reference lib="webworker" />
+
+import { buildDataset, createMappingRequest } from '../utils/csv-parser';
+import { resolveReader, RowParser, InputReader } from '../utils/readers';
+import { CsvMetadata, DateTimeOptions, DuplicatePolicy, InputFormat } from '../models/data.model';
+import { CsvWorkerRequest, CsvWorkerResponse } from '../models/csv-worker.model';
+
+// Read the file in 1 MB slices so progress can be reported while streaming
+const CHUNK_SIZE = 1024 * 1024;
+
+// Tokenized rows of the file being parsed, kept until the mapping is confirmed
+let fileName = '';
+let rows: string[][] = [];
+
+addEventListener('message', ({ data }: MessageEvent<CsvWorkerRequest>) => {
+  const task = data.type === 'parse'
+    ? readFile(data.file, data.format)
+    : build(data.mapping, data.dateTimeOptions, data.duplicatePolicy);
+
+  task.catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+});
+
+async function readFile(file: File, format: InputFormat): Promise<void> {
+  const decoder = new TextDecoder('utf-8');
+  let reader: InputReader | null = null;
+  let parser: RowParser | null = null;
+  fileName = file.name;
+  rows = [];
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const text = decoder.decode(buffer, { stream: true });
+
+    // The first slice is enough to recognize the format
+    if (!parser) {
+      reader = resolveReader(format, file.name, text);
+      parser = reader.createParser();
+    }
+    appendRows(rows, parser.write(text));
+
+    const bytesRead = Math.min(offset + CHUNK_SIZE, file.size);
+    postProgress('reading', (bytesRead / file.size) * 100);
+  }
+
+  if (!reader || !parser) {
+    reader = resolveReader(format, file.name, '');
+    parser = reader.createParser();
+  }
+  appendRows(rows, parser.write(decoder.decode()));
+  appendRows(rows, parser.end());
+
+  postProgress('analyzing', 100);
+  post({ type: 'analyzed', request: createMappingRequest(fileName, rows, reader.format) });
+}
+
+async function build(mapping: CsvMetadata, dateTimeOptions: DateTimeOptions, duplicatePolicy: DuplicatePolicy): Promise<void> {
+  postProgress('building', 100);
+  const result = buildDataset(rows, mapping, dateTimeOptions, duplicatePolicy);
+  // Column buffers are handed over rather than copied
+  post({ type: 'result', ...result, data: result.data.toData() }, result.data.transferables());
+}
+
+function appendRows(target: string[][], newRows: string[][]): void {
+  // Avoid push(...newRows): large chunks would overflow the argument limit
+  for (const row of newRows) {
+    target.push(row);
+  }
+}
+
+function postProgress(stage: 'reading' | 'analyzing' | 'building', percent: number): void {
+  post({
+    type: 'progress',
+    progress: {
+      fileName,
+      stage,
+      rowsParsed: Math.max(0, rows.length - 1),
+      percent
+    }
+  });
+}
+
+function post(message: CsvWorkerResponse, transfer: Transferable[] = []): void {
+  postMessage(message, transfer);
+}
@@ -0,0 +1,235 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { ColumnStoreData, DataSource, RecentDataset } from '../models/data.model';
+import { ColumnStore } from '../utils/column-store';
+
+const DB_NAME = 'csv-plotter';
+const DB_VERSION = 2;
+const ENTRY_STORE = 'entries';
+const DATASET_STORE = 'datasets';
+
+// Eviction limits: the least recently opened datasets are dropped first
+const MAX_RECENT_DATASETS = 10;
+const MAX_STORED_BYTES = 500 * 1024 * 1024;
+
+interface StoredDataset {
+  id: string;
+  columns: ColumnStoreData;
+  metadata: DataSource['metadata'];
+  fields: DataSource['fields'];
+  quality: DataSource['quality'];
+}
+
+/** A stored dataset ready to be shown again; it has no file to re-parse. */
+export type ReopenedDataset = Omit<DataSource, 'id'>;
+
+/**
+ * Keeps parsed datasets in IndexedDB so they can be reopened after a reload
+ * without the original file. Entries (the list shown to the user) and the
+ * column data live in separate object stores so listing stays cheap.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DatasetStoreService {
+  private recentSubject = new BehaviorSubject<RecentDataset[]>([]);
+  private db: Promise<IDBDatabase> | null = null;
+
+  public recent$ = this.recentSubject.asObservable();
+
+  constructor() {
+    this.refresh().catch(error => console.warn('Recent files are unavailable:', error));
+  }
+
+  /**
+   * Store a freshly parsed source, replacing an earlier copy of the same
+   * file, then evict old entries to stay within the limits.
+   */
+  public save(source: DataSource): Promise<void> {
+    if (!source.file || typeof indexedDB === 'undefined') {
+      return Promise.resolve();
+    }
+
+    const id = datasetKey(source.file);
+    const stored: StoredDataset = {
+      id,
+      columns: source.data.toData(),
+      metadata: source.metadata,
+      fields: source.fields,
+      quality: source.quality
+    };
+    const timeExtent = source.data.timeExtent();
+    const now = Date.now();
+    const entry: RecentDataset = {
+      id,
+      fileName: source.fileName,
+      fileSize: source.file.size,
+      rowCount: source.data.length,
+      start: timeExtent ? timeExtent[0] : null,
+      end: timeExtent ? timeExtent[1] : null,
+      storedBytes: estimateBytes(stored.columns),
+      savedAt: now,
+      openedAt: now
+    };
+
+    return this.write(entry, stored)
+      .catch(error => {
+        if (!isQuotaError(error)) {
+          throw error;
+        }
+        // Make room by dropping every other dataset, then try once more
+        return this.evict(id, 1).then(() => this.write(entry, stored));
+      })
+      .then(() => this.evict(id, MAX_RECENT_DATASETS))
+      .then(() => this.refresh());
+  }
+
+  /**
+   * Load a stored dataset and mark it as recently opened.
+   */
+  public open(id: string): Promise<ReopenedDataset> {
+    return this.database()
+      .then(db => requestResult<StoredDataset | undefined>(db.transaction(DATASET_STORE).objectStore(DATASET_STORE).get(id)))
+      .then(stored => {
+        const entry = this.recentSubject.value.find(e => e.id === id);
+        if (!stored || !entry) {
+          throw new Error('The dataset is no longer stored');
+        }
+        this.updateEntry({ ...entry, openedAt: Date.now() });
+        return {
+          fileName: entry.fileName,
+          file: null,
+          data: new ColumnStore(stored.columns),
+          metadata: stored.metadata,
+          fields: stored.fields,
+          // Datasets stored before dropped duplicates were counted lack the count
+          quality: { ...stored.quality, droppedDuplicateRows: stored.quality.droppedDuplicateRows ?? 0 }
+        };
+      });
+  }
+
+  public delete(id: string): Promise<void> {
+    return this.database()
+      .then(db => completeTransaction(db, [ENTRY_STORE, DATASET_STORE], transaction => {
+        transaction.objectStore(ENTRY_STORE).delete(id);
+        transaction.objectStore(DATASET_STORE).delete(id);
+      }))
+      .then(() => this.refresh());
+  }
+
+  private write(entry: RecentDataset, stored: StoredDataset): Promise<void> {
+    return this.database().then(db => completeTransaction(db, [ENTRY_STORE, DATASET_STORE], transaction => {
+      transaction.objectStore(ENTRY_STORE).put(entry);
+      transaction.objectStore(DATASET_STORE).put(stored);
+    }));
+  }
+
+  private updateEntry(entry: RecentDataset): void {
+    this.database()
+      .then(db => completeTransaction(db, [ENTRY_STORE], transaction => {
+        transaction.objectStore(ENTRY_STORE).put(entry);
+      }))
+      .then(() => this.refresh())
+      .catch(error => console.warn('Could not update recent files:', error));
+  }
+
+  /**
+   * Keep at most `maxEntries` datasets and MAX_STORED_BYTES in total. The
+   * dataset just saved (`keepId`) is never evicted.
+   */
+  private evict(keepId: string, maxEntries: number): Promise<void> {
+    return this.readEntries().then(entries => {
+      let count = 0;
+      let bytes = entries.find(entry => entry.id === keepId)?.storedBytes ?? 0;
+      const evicted = entries.filter(entry => {
+        if (entry.id === keepId) {
+          return false;
+        }
+        count++;
+        bytes += entry.storedBytes;
+        return count >= maxEntries || bytes > MAX_STORED_BYTES;
+      });
+
+      if (evicted.length === 0) {
+        return;
+      }
+      return this.database().then(db => completeTransaction(db, [ENTRY_STORE, DATASET_STORE], transaction => {
+        for (const entry of evicted) {
+          transaction.objectStore(ENTRY_STORE).delete(entry.id);
+          transaction.objectStore(DATASET_STORE).delete(entry.id);
+        }
+      }));
+    });
+  }
+
+  private refresh(): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.resolve();
+    }
+    return this.readEntries().then(entries => this.recentSubject.next(entries));
+  }
+
+  /** All entries, most recently opened first. */
+  private readEntries(): Promise<RecentDataset[]> {
+    return this.database()
+      .then(db => requestResult<RecentDataset[]>(db.transaction(ENTRY_STORE).objectStore(ENTRY_STORE).getAll()))
+      .then(entries => entries.sort((a, b) => b.openedAt - a.openedAt));
+  }
+
+  private database(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          // Datasets stored in an older layout are dropped rather than converted
+          const db = request.result;
+          for (const name of Array.from(db.objectStoreNames)) {
+            db.deleteObjectStore(name);
+          }
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+          db.createObjectStore(DATASET_STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/** The same file uploaded again replaces its earlier copy. */
+function datasetKey(file: File): string {
+  return `${file.name}|${file.size}|${file.lastModified}`;
+}
+
+function estimateBytes(columns: ColumnStoreData): number {
+  let bytes = columns.times.byteLength;
+  for (const values of Object.values(columns.numeric)) {
+    bytes += values.byteLength;
+  }
+  for (const column of Object.values(columns.text)) {
+    bytes += column.codes.byteLength + column.dictionary.reduce((sum, value) => sum + value.length * 2, 0);
+  }
+  return bytes;
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completeTransaction(db: IDBDatabase, stores: string[], write: (transaction: IDBTransaction) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, 'readwrite');
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+    write(transaction);
+  });
+}
@@ -0,0 +1,105 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { SeriesGroup, SeriesGrouping, DEFAULT_COLORS } from '../models/data.model';
+import { ColumnStore } from '../utils/column-store';
+import { CsvService } from './csv.service';
+
+export interface GroupedSeries {
+  group: SeriesGroup | null; // null when the data is not grouped
+  data: ColumnStore;
+}
+
+// Columns with more distinct values than this are not offered for grouping
+export const MAX_SERIES_GROUPS = 20;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class GroupingService {
+  private groupingSubject = new BehaviorSubject<SeriesGrouping | null>(null);
+
+  public grouping$ = this.groupingSubject.asObservable();
+
+  constructor(private csvService: CsvService) {
+    // Keep the groups in step with the loaded data
+    this.csvService.data$.subscribe(data => {
+      const grouping = this.groupingSubject.value;
+      if (grouping) {
+        this.applyGroupField(grouping.field, data);
+      }
+    });
+  }
+
+  public setGroupField(field: string | null): void {
+    this.applyGroupField(field, this.csvService.getCurrentData());
+  }
+
+  public setGroupVisible(value: string, visible: boolean): void {
+    const grouping = this.groupingSubject.value;
+    if (!grouping) {
+      return;
+    }
+
+    this.groupingSubject.next({
+      ...grouping,
+      groups: grouping.groups.map(group => group.value === value ? { ...group, visible } : group)
+    });
+  }
+
+  public getCurrentGrouping(): SeriesGrouping | null {
+    return this.groupingSubject.value;
+  }
+
+  private applyGroupField(field: string | null, data: ColumnStore): void {
+    const values = field ? distinctValues(data, field) : [];
+    if (!field || values.length === 0 || values.length > MAX_SERIES_GROUPS) {
+      this.groupingSubject.next(null);
+      return;
+    }
+
+    // Groups that already existed keep their visibility
+    const previous = this.groupingSubject.value;
+    const wasVisible = (value: string) =>
+      previous?.field === field ? previous.groups.find(g => g.value === value)?.visible ?? true : true;
+
+    this.groupingSubject.next({
+      field,
+      groups: values.map((value, index) => ({
+        value,
+        color: DEFAULT_COLORS[index % DEFAULT_COLORS.length],
+        visible: wasVisible(value)
+      }))
+    });
+  }
+}
+
+/**
+ * Distinct values of a column in order of first appearance. Stops counting
+ * once there are more than MAX_SERIES_GROUPS.
+ */
+export function distinctValues(data: ColumnStore, field: string): string[] {
+  return data.distinct(field, MAX_SERIES_GROUPS).filter(value => value !== '');
+}
+
+/**
+ * Split data into one series per visible group, keeping row order. Without a
+ * grouping the whole data set is a single series.
+ */
+export function splitIntoSeries(data: ColumnStore, grouping: SeriesGrouping | null): GroupedSeries[] {
+  if (!grouping) {
+    return [{ group: null, data }];
+  }
+
+  const byValue = new Map<string, number[]>();
+  grouping.groups
+    .filter(group => group.visible)
+    .forEach(group => byValue.set(group.value, []));
+
+  for (let index = 0; index < data.length; index++) {
+    byValue.get(String(data.value(grouping.field, index)))?.push(index);
+  }
+
+  return grouping.groups
+    .filter(group => group.visible)
+    .map(group => ({ group, data: data.select(byValue.get(group.value)!) }));
+}
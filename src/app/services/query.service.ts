@@ -0,0 +1,165 @@
+import { Injectable } from '@angular/core';
+import { TimeRange } from '../models/data.model';
+import { ColumnStore } from '../utils/column-store';
+
+export interface RangeStats {
+  min: number;
+  max: number;
+  mean: number;
+  count: number; // Rows with a value
+}
+
+// Rows per block of the precomputed summaries
+const BLOCK_SIZE = 1024;
+
+// Range statistics remembered per store before the cache is cleared
+const MAX_CACHED_STATS = 256;
+
+/** Minimum, maximum, sum and count of a numeric column per block of rows. */
+interface BlockSummary {
+  min: Float64Array;
+  max: Float64Array;
+  sum: Float64Array;
+  count: Float64Array;
+}
+
+/**
+ * Time-range queries over loaded data, shared by the charts and the map.
+ * Rows are found by binary search on the time column; statistics combine
+ * per-block summaries so a range costs O(blocks + block size) rather than
+ * a scan, and recent results are cached. Summaries are kept per store and
+ * are dropped with it.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QueryService {
+  private summaries = new WeakMap<ColumnStore, Map<string, BlockSummary>>();
+  private statsCache = new WeakMap<ColumnStore, Map<string, RangeStats | null>>();
+
+  /** Row indices [from, to) within the time range, inclusive of both ends. */
+  public rows(data: ColumnStore, timeRange: TimeRange): [number, number] {
+    return data.range(timeRange.start.getTime(), timeRange.end.getTime());
+  }
+
+  /** The rows within the time range, sharing the store's buffers. */
+  public slice(data: ColumnStore, timeRange: TimeRange): ColumnStore {
+    return data.slice(...this.rows(data, timeRange));
+  }
+
+  /** Index of the row nearest in time, or -1 when there are no rows. */
+  public nearest(data: ColumnStore, time: Date): number {
+    return data.nearest(time.getTime());
+  }
+
+  /**
+   * Minimum, maximum and mean of a numeric field over a time range, or the
+   * whole store without one. Null when the range has no values.
+   */
+  public stats(data: ColumnStore, key: string, timeRange: TimeRange | null = null): RangeStats | null {
+    const [from, to] = timeRange ? this.rows(data, timeRange) : [0, data.length];
+    const values = data.numbers(key);
+    if (!values || from >= to) {
+      return null;
+    }
+
+    let cache = this.statsCache.get(data);
+    if (!cache) {
+      cache = new Map();
+      this.statsCache.set(data, cache);
+    }
+    const cacheKey = `${key}|${from}|${to}`;
+    if (cache.has(cacheKey)) {
+      return cache.get(cacheKey)!;
+    }
+    if (cache.size >= MAX_CACHED_STATS) {
+      cache.clear();
+    }
+
+    const stats = rangeStats(values, this.summary(data, key, values), from, to);
+    cache.set(cacheKey, stats);
+    return stats;
+  }
+
+  private summary(data: ColumnStore, key: string, values: Float64Array): BlockSummary {
+    let byKey = this.summaries.get(data);
+    if (!byKey) {
+      byKey = new Map();
+      this.summaries.set(data, byKey);
+    }
+    let summary = byKey.get(key);
+    if (!summary) {
+      summary = summarize(values);
+      byKey.set(key, summary);
+    }
+    return summary;
+  }
+}
+
+function summarize(values: Float64Array): BlockSummary {
+  const blocks = Math.ceil(values.length / BLOCK_SIZE);
+  const summary: BlockSummary = {
+    min: new Float64Array(blocks).fill(Infinity),
+    max: new Float64Array(blocks).fill(-Infinity),
+    sum: new Float64Array(blocks),
+    count: new Float64Array(blocks)
+  };
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNaN(value)) {
+      continue;
+    }
+    const block = Math.floor(i / BLOCK_SIZE);
+    if (value < summary.min[block]) {
+      summary.min[block] = value;
+    }
+    if (value > summary.max[block]) {
+      summary.max[block] = value;
+    }
+    summary.sum[block] += value;
+    summary.count[block]++;
+  }
+  return summary;
+}
+
+function rangeStats(values: Float64Array, summary: BlockSummary, from: number, to: number): RangeStats | null {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let count = 0;
+
+  const addValue = (value: number) => {
+    if (isNaN(value)) {
+      return;
+    }
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+    count++;
+  };
+
+  // Partial blocks at either end are scanned; whole blocks use their summary
+  const firstWhole = Math.ceil(from / BLOCK_SIZE);
+  const lastWhole = Math.floor(to / BLOCK_SIZE);
+  if (firstWhole >= lastWhole) {
+    for (let i = from; i < to; i++) {
+      addValue(values[i]);
+    }
+  } else {
+    for (let i = from; i < firstWhole * BLOCK_SIZE; i++) {
+      addValue(values[i]);
+    }
+    for (let block = firstWhole; block < lastWhole; block++) {
+      min = Math.min(min, summary.min[block]);
+      max = Math.max(max, summary.max[block]);
+      sum += summary.sum[block];
+      count += summary.count[block];
+    }
+    for (let i = lastWhole * BLOCK_SIZE; i < to; i++) {
+      addValue(values[i]);
+    }
+  }
+
+  return count > 0 ? { min, max, mean: sum / count, count } : null;
+}
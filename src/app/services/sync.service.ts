@@ -1,6 +1,9 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Subject } from 'rxjs';
-import { HoverEvent, TimeRange } from '../models/data.model';
+import { HoverEvent, TimeRange, ZoomHistoryState } from '../models/data.model';
+
+// Most views kept for back/forward navigation
+const MAX_ZOOM_HISTORY = 50;
 
 @Injectable({
   providedIn: 'root'
@@ -8,10 +11,18 @@ import { HoverEvent, TimeRange } from '../models/data.model';
 export class SyncService {
   private hoverSubject = new Subject<HoverEvent | null>();
   private zoomSubject = new BehaviorSubject<TimeRange | null>(null);
+  private zoomHistorySubject = new BehaviorSubject<ZoomHistoryState>({ canGoBack: false, canGoForward: false });
+  private pinnedTimeSubject = new BehaviorSubject<Date | null>(null);
   private dataBounds: TimeRange | null = null;
+  // Views visited, null for the full range; zoomIndex is the one shown
+  private zoomHistory: (TimeRange | null)[] = [null];
+  private zoomIndex = 0;
+  private lastGesture: number | null = null; // Gesture that made the current entry
   
   public hover$ = this.hoverSubject.asObservable();
   public zoom$ = this.zoomSubject.asObservable();
+  public zoomHistory$ = this.zoomHistorySubject.asObservable();
+  public pinnedTime$ = this.pinnedTimeSubject.asObservable();
 
   constructor() { }
 
@@ -19,11 +30,36 @@ export class SyncService {
     this.hoverSubject.next(event);
   }
 
+  /** Keep a cursor at a time while the mouse moves elsewhere. */
+  public pinCursor(time: Date): void {
+    this.pinnedTimeSubject.next(time);
+  }
+
+  public unpinCursor(): void {
+    this.pinnedTimeSubject.next(null);
+  }
+
   public setDataBounds(bounds: TimeRange): void {
+    // Views of the previous data mean nothing for new data
+    if (!this.dataBounds || bounds.start.getTime() !== this.dataBounds.start.getTime() ||
+        bounds.end.getTime() !== this.dataBounds.end.getTime()) {
+      this.zoomHistory = [this.zoomSubject.value];
+      this.zoomIndex = 0;
+      this.lastGesture = null;
+      this.updateZoomHistory();
+    }
     this.dataBounds = bounds;
   }
 
-  public emitZoom(timeRange: TimeRange): void {
+  public getDataBounds(): TimeRange | null {
+    return this.dataBounds;
+  }
+
+  /**
+   * Show a time range on every view. Steps of one wheel, pan or pinch
+   * gesture pass the same `gesture` id and make a single history entry.
+   */
+  public emitZoom(timeRange: TimeRange, gesture: number | null = null): void {
     // Clamp zoom to data bounds if they exist
     if (this.dataBounds) {
       const clampedStart = new Date(Math.max(timeRange.start.getTime(), this.dataBounds.start.getTime()));
@@ -35,6 +71,7 @@ export class SyncService {
       };
     }
     
+    this.recordZoom(timeRange, gesture);
     this.zoomSubject.next(timeRange);
   }
 
@@ -43,6 +80,49 @@ export class SyncService {
   }
 
   public clearZoom(): void {
+    this.recordZoom(null, null);
     this.zoomSubject.next(null);
   }
+
+  /** Return to the view shown before the last zoom. */
+  public zoomBack(): void {
+    this.goToZoom(this.zoomIndex - 1);
+  }
+
+  /** Redo a zoom undone with zoomBack. */
+  public zoomForward(): void {
+    this.goToZoom(this.zoomIndex + 1);
+  }
+
+  private recordZoom(timeRange: TimeRange | null, gesture: number | null): void {
+    const continuesGesture = gesture !== null && gesture === this.lastGesture;
+    this.lastGesture = gesture;
+
+    if (continuesGesture) {
+      this.zoomHistory[this.zoomIndex] = timeRange;
+      this.zoomHistory.length = this.zoomIndex + 1;
+    } else if (timeRange !== null || this.zoomSubject.value !== null) {
+      this.zoomHistory = [...this.zoomHistory.slice(0, this.zoomIndex + 1), timeRange].slice(-MAX_ZOOM_HISTORY);
+      this.zoomIndex = this.zoomHistory.length - 1;
+    }
+    this.updateZoomHistory();
+  }
+
+  private goToZoom(index: number): void {
+    if (index < 0 || index >= this.zoomHistory.length) {
+      return;
+    }
+    this.zoomIndex = index;
+    // The next zoom starts a new entry rather than replacing this one
+    this.lastGesture = null;
+    this.updateZoomHistory();
+    this.zoomSubject.next(this.zoomHistory[index]);
+  }
+
+  private updateZoomHistory(): void {
+    this.zoomHistorySubject.next({
+      canGoBack: this.zoomIndex > 0,
+      canGoForward: this.zoomIndex < this.zoomHistory.length - 1
+    });
+  }
 }
@@ -0,0 +1,44 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { PlotField, UnitSystem, DEFAULT_UNIT_SYSTEM } from '../models/data.model';
+import { createUnitConverter, displayUnit } from '../utils/units';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class UnitService {
+  private unitSystemSubject = new BehaviorSubject<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  public unitSystem$ = this.unitSystemSubject.asObservable();
+
+  public setUnitSystem(system: UnitSystem): void {
+    this.unitSystemSubject.next(system);
+  }
+
+  public getUnitSystem(): UnitSystem {
+    return this.unitSystemSubject.value;
+  }
+
+  /**
+   * The unit a field's values are shown in under the current unit system.
+   */
+  public displayUnit(field: PlotField): string | null {
+    return displayUnit(field.unit, this.unitSystemSubject.value);
+  }
+
+  /**
+   * Convert a field's recorded values to its display unit. Charts and any
+   * data export should go through this so both agree.
+   */
+  public converterFor(field: PlotField): (value: number) => number {
+    return createUnitConverter(field.unit, this.displayUnit(field));
+  }
+
+  /**
+   * Convert a value typed in a field's display unit back to its recorded
+   * unit, so settings stored with the field survive unit system changes.
+   */
+  public recordedConverterFor(field: PlotField): (value: number) => number {
+    return createUnitConverter(this.displayUnit(field), field.unit);
+  }
+}
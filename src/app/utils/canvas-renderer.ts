@@ -0,0 +1,97 @@
+import * as d3 from 'd3';
+
+// Charts draw on a canvas instead of SVG elements above this many points, gap bands and segments
+export const CANVAS_POINT_THRESHOLD = 4000;
+
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill: string;
+  stroke?: string;
+  opacity?: number;
+}
+
+/**
+ * Create a canvas covering a chart's plot area, placed under the chart's SVG
+ * so axes, brush and tooltip stay on top and keep receiving the mouse. The
+ * backing store is scaled to the device pixel ratio to stay sharp.
+ */
+export function createPlotCanvas(container: HTMLElement, left: number, top: number,
+  width: number, height: number): HTMLCanvasElement {
+  const ratio = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * ratio);
+  canvas.height = Math.round(height * ratio);
+  canvas.style.position = 'absolute';
+  canvas.style.left = `${left}px`;
+  canvas.style.top = `${top}px`;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  canvas.style.pointerEvents = 'none';
+  container.style.position = 'relative';
+  container.insertBefore(canvas, container.firstChild);
+  return canvas;
+}
+
+export function clearCanvas(canvas: HTMLCanvasElement): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  // Later drawing is in CSS pixels
+  const ratio = window.devicePixelRatio || 1;
+  context.setTransform(ratio, 0, 0, ratio, 0, 0);
+}
+
+export function drawRects(canvas: HTMLCanvasElement, rects: CanvasRect[]): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  for (const rect of rects) {
+    context.globalAlpha = rect.opacity ?? 1;
+    context.fillStyle = rect.fill;
+    context.fillRect(rect.x, rect.y, rect.width, rect.height);
+    if (rect.stroke) {
+      context.strokeStyle = rect.stroke;
+      context.lineWidth = 1;
+      context.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    }
+  }
+  context.globalAlpha = 1;
+}
+
+/**
+ * Stroke a line with the same generator the SVG path would use, so curve
+ * and gap handling match between the two backends.
+ */
+export function drawLine<T>(canvas: HTMLCanvasElement, line: d3.Line<T>, data: T[], color: string, width: number, dash: number[] = []): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.beginPath();
+  line.context(context)(data);
+  line.context(null);
+  context.strokeStyle = color;
+  context.lineWidth = width;
+  context.setLineDash(dash);
+  context.stroke();
+}
+
+/** Fill an area, like drawLine does for lines. */
+export function drawArea<T>(canvas: HTMLCanvasElement, area: d3.Area<T>, data: T[], color: string): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return;
+  }
+  context.beginPath();
+  area.context(context)(data);
+  area.context(null);
+  context.fillStyle = color;
+  context.fill();
+}
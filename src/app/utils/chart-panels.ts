@@ -0,0 +1,78 @@
+import { ChartPanel, PlotField, SmoothingOverlay, YAxisSide } from '../models/data.model';
+
+let nextPanelId = 1;
+
+function createPanel(fields: PlotField[]): ChartPanel {
+  return { id: `panel-${nextPanelId++}`, fields, axes: {}, overlays: [] };
+}
+
+/**
+ * Keep panels in step with the selected fields: fields no longer selected
+ * leave their panel, empty panels are dropped and newly selected fields get
+ * a panel of their own at the end. Fields switched to state charts leave
+ * shared panels the same way. Unchanged panels keep their identity.
+ */
+export function syncPanels(panels: ChartPanel[], selectedFields: PlotField[]): ChartPanel[] {
+  const selected = new Map(selectedFields.map(field => [field.key, field]));
+  const placed = new Set<string>();
+
+  const kept = panels
+    .map(panel => {
+      const current = panel.fields
+        .filter(field => selected.has(field.key))
+        .map(field => selected.get(field.key)!);
+      // State fields always have a panel of their own
+      const fields = current.length > 1 ? current.filter(field => field.chartType === 'line') : current;
+      fields.forEach(field => placed.add(field.key));
+      const unchanged = fields.length === panel.fields.length && fields.every((field, i) => field === panel.fields[i]);
+      if (unchanged) {
+        return panel;
+      }
+      return fields.length === panel.fields.length ? { ...panel, fields } : withFields(panel, fields);
+    })
+    .filter(panel => panel.fields.length > 0);
+
+  const added = selectedFields
+    .filter(field => !placed.has(field.key))
+    .map(field => createPanel([field]));
+
+  return [...kept, ...added];
+}
+
+/** Move a line field into another panel, leaving its own. */
+export function moveToPanel(panels: ChartPanel[], panelId: string, field: PlotField): ChartPanel[] {
+  return panels
+    .map(panel => {
+      const fields = panel.fields.filter(f => f.key !== field.key);
+      return panel.id === panelId ? { ...panel, fields: [...fields, field] } : withFields(panel, fields);
+    })
+    .filter(panel => panel.fields.length > 0);
+}
+
+/** Take a field out of a shared panel into a new panel right after it. */
+export function splitFromPanel(panels: ChartPanel[], panelId: string, field: PlotField): ChartPanel[] {
+  return panels.flatMap(panel => panel.id === panelId && panel.fields.length > 1
+    ? [withFields(panel, panel.fields.filter(f => f.key !== field.key)), createPanel([field])]
+    : [panel]);
+}
+
+export function setPanelAxis(panels: ChartPanel[], panelId: string, fieldKey: string, side: YAxisSide): ChartPanel[] {
+  return panels.map(panel => panel.id === panelId
+    ? { ...panel, axes: { ...panel.axes, [fieldKey]: side } }
+    : panel);
+}
+
+export function setPanelOverlays(panels: ChartPanel[], panelId: string, overlays: SmoothingOverlay[]): ChartPanel[] {
+  return panels.map(panel => panel.id === panelId ? { ...panel, overlays } : panel);
+}
+
+function withFields(panel: ChartPanel, fields: PlotField[]): ChartPanel {
+  if (fields.length === panel.fields.length) {
+    return panel;
+  }
+  // Axis choices of fields that left are forgotten; a lone field goes back to the left axis
+  const axes = fields.length > 1
+    ? Object.fromEntries(Object.entries(panel.axes).filter(([key]) => fields.some(f => f.key === key)))
+    : {};
+  return { ...panel, fields, axes };
+}
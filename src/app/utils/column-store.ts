@@ -0,0 +1,229 @@
+import { ColumnStoreData, DataPoint, TextColumn } from '../models/data.model';
+
+export type ColumnValue = number | string | null;
+
+/**
+ * Loaded rows held column by column: an epoch-ms time column, Float64Array
+ * columns for numbers and dictionary-encoded text columns. Rows are in time
+ * order, so time lookups are binary searches. The extent of every numeric
+ * column is computed once when the store is created.
+ */
+export class ColumnStore {
+  readonly length: number;
+  readonly times: Float64Array;
+  private readonly extents = new Map<string, [number, number] | null>();
+  private readonly timeRange: [number, number] | null;
+
+  constructor(private readonly columns: ColumnStoreData) {
+    this.times = columns.times;
+    this.length = columns.times.length;
+    this.timeRange = extentOf(columns.times);
+    for (const [key, values] of Object.entries(columns.numeric)) {
+      this.extents.set(key, extentOf(values));
+    }
+  }
+
+  static empty(): ColumnStore {
+    return new ColumnStore({ times: new Float64Array(0), numeric: {}, text: {} });
+  }
+
+  get keys(): string[] {
+    return [...Object.keys(this.columns.numeric), ...Object.keys(this.columns.text)];
+  }
+
+  has(key: string): boolean {
+    return key in this.columns.numeric || key in this.columns.text;
+  }
+
+  isNumeric(key: string): boolean {
+    return key in this.columns.numeric;
+  }
+
+  /** The values of a numeric column, NaN where missing; null for other columns. */
+  numbers(key: string): Float64Array | null {
+    return this.columns.numeric[key] ?? null;
+  }
+
+  text(key: string): TextColumn | null {
+    return this.columns.text[key] ?? null;
+  }
+
+  time(index: number): number {
+    return this.times[index];
+  }
+
+  date(index: number): Date {
+    return new Date(this.times[index]);
+  }
+
+  /** A numeric value, or NaN when it is missing or the column is not numeric. */
+  number(key: string, index: number): number {
+    const values = this.columns.numeric[key];
+    return values ? values[index] : NaN;
+  }
+
+  value(key: string, index: number): ColumnValue {
+    const values = this.columns.numeric[key];
+    if (values) {
+      return isNaN(values[index]) ? null : values[index];
+    }
+    const column = this.columns.text[key];
+    if (!column || column.codes[index] < 0) {
+      return null;
+    }
+    return column.dictionary[column.codes[index]];
+  }
+
+  /** Smallest and largest value of a numeric column; null without values. */
+  extent(key: string): [number, number] | null {
+    return this.extents.get(key) ?? null;
+  }
+
+  timeExtent(): [number, number] | null {
+    return this.timeRange;
+  }
+
+  /** Whether another store spans exactly the same times. */
+  hasSameTimeExtent(other: ColumnStore): boolean {
+    const extent = other.timeExtent();
+    if (!this.timeRange || !extent) {
+      return this.timeRange === extent;
+    }
+    return this.timeRange[0] === extent[0] && this.timeRange[1] === extent[1];
+  }
+
+  /**
+   * Distinct non-missing values of a column as text, in order of first
+   * appearance. Stops once more than `limit` values have been seen.
+   */
+  distinct(key: string, limit: number = Infinity): string[] {
+    const seen = new Set<string>();
+    for (let i = 0; i < this.length && seen.size <= limit; i++) {
+      const value = this.value(key, i);
+      if (value !== null) {
+        seen.add(String(value));
+      }
+    }
+    return [...seen];
+  }
+
+  /** Index of the first row at or after `time`; `length` when there is none. */
+  lowerBound(time: number): number {
+    return this.search(t => t < time);
+  }
+
+  /** Index of the first row after `time`; `length` when there is none. */
+  upperBound(time: number): number {
+    return this.search(t => t <= time);
+  }
+
+  /** Index of the row nearest in time, or -1 when the store is empty. */
+  nearest(time: number): number {
+    if (this.length === 0) {
+      return -1;
+    }
+    const index = this.lowerBound(time);
+    if (index === 0) {
+      return 0;
+    }
+    if (index === this.length) {
+      return this.length - 1;
+    }
+    return time - this.times[index - 1] > this.times[index] - time ? index : index - 1;
+  }
+
+  /** Row indices [from, to) whose time lies within [start, end]. */
+  range(start: number, end: number): [number, number] {
+    return [this.lowerBound(start), this.upperBound(end)];
+  }
+
+  /** Rows [from, to) as a new store sharing this store's buffers. */
+  slice(from: number, to: number): ColumnStore {
+    return new ColumnStore({
+      times: this.times.subarray(from, to),
+      numeric: mapValues(this.columns.numeric, values => values.subarray(from, to)),
+      text: mapValues(this.columns.text, column => ({ codes: column.codes.subarray(from, to), dictionary: column.dictionary }))
+    });
+  }
+
+  /** The given rows as a new store; index -1 gives a row of missing values. */
+  select(indices: ArrayLike<number>): ColumnStore {
+    const pick = (source: Float64Array) => Float64Array.from(indices, index => index < 0 ? NaN : source[index]);
+    return new ColumnStore({
+      times: pick(this.times),
+      numeric: mapValues(this.columns.numeric, pick),
+      text: mapValues(this.columns.text, column => ({
+        codes: Int32Array.from(indices, index => index < 0 ? -1 : column.codes[index]),
+        dictionary: column.dictionary
+      }))
+    });
+  }
+
+  /** A new store with a numeric column added or replaced, sharing the other buffers. */
+  withNumbers(key: string, values: Float64Array): ColumnStore {
+    const text = { ...this.columns.text };
+    delete text[key];
+    return new ColumnStore({ times: this.times, numeric: { ...this.columns.numeric, [key]: values }, text });
+  }
+
+  /** One row as an object, for consumers such as hover events. */
+  row(index: number): DataPoint {
+    const point = { datetime: this.date(index) } as DataPoint;
+    for (const key of this.keys) {
+      point[key] = this.value(key, index);
+    }
+    return point;
+  }
+
+  /** The underlying arrays, e.g. to post or store them. */
+  toData(): ColumnStoreData {
+    return this.columns;
+  }
+
+  /** Buffers that can be transferred rather than copied when posting. */
+  transferables(): ArrayBuffer[] {
+    const buffers = [
+      this.columns.times.buffer,
+      ...Object.values(this.columns.numeric).map(values => values.buffer),
+      ...Object.values(this.columns.text).map(column => column.codes.buffer)
+    ];
+    return [...new Set(buffers)] as ArrayBuffer[];
+  }
+
+  private search(isBefore: (time: number) => boolean): number {
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (isBefore(this.times[mid])) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+}
+
+function extentOf(values: Float64Array): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value < min) {
+      min = value;
+    }
+    if (value > max) {
+      max = value;
+    }
+  }
+  return min <= max ? [min, max] : null;
+}
+
+function mapValues<T, U>(object: { [key: string]: T }, map: (value: T) => U): { [key: string]: U } {
+  const result: { [key: string]: U } = {};
+  for (const [key, value] of Object.entries(object)) {
+    result[key] = map(value);
+  }
+  return result;
+}
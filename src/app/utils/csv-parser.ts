@@ -0,0 +1,291 @@
+import {
+  ColumnStoreData, CsvMetadata, PlotField, DateTimeOptions, ColumnMappingRequest, DataQualityReport, DuplicatePolicy,
+  InputFormat, TextColumn, DEFAULT_COLORS, DEFAULT_DUPLICATE_POLICY
+} from '../models/data.model';
+import { createDateTimeParser, detectDateTimeFormat, DateTimeParser } from './datetime-parser';
+import { defaultChartType, inferFieldType } from './field-types';
+import { detectUnit, stripUnitSuffix } from './units';
+import { createQualityReport } from './data-quality';
+import { orderByTime } from './row-order';
+import { ColumnStore } from './column-store';
+
+export interface ParsedCsv {
+  data: ColumnStore;
+  metadata: CsvMetadata;
+  fields: PlotField[];
+  quality: DataQualityReport;
+}
+
+// Number of data rows shown as samples in the column mapping step
+const PREVIEW_ROW_COUNT = 5;
+
+/*
+ * The functions below have no Angular or DOM dependencies so they can run
+ * inside the parser worker as well as on the main thread.
+ */
+
+/**
+ * Detect column roles and types from tokenized rows (header row first) read
+ * in `inputFormat`. The result is a proposal the user confirms or edits
+ * before building.
+ */
+export function createMappingRequest(fileName: string, rows: string[][], inputFormat: InputFormat = 'csv'): ColumnMappingRequest {
+  if (rows.length === 0) {
+    throw new Error('File is empty');
+  }
+
+  const headers = rows[0].map(h => h.trim());
+  const dataRows = rows.slice(1);
+  const numericColumns = headers.filter((_, index) => isNumericField(index, dataRows));
+
+  return {
+    fileName,
+    metadata: { ...analyzeHeaders(headers, numericColumns), inputFormat },
+    numericColumns,
+    previewRows: dataRows.slice(0, PREVIEW_ROW_COUNT)
+  };
+}
+
+/**
+ * Turn tokenized CSV rows into a column store and plottable fields using a
+ * confirmed column mapping, along with a report of problems in the file.
+ * Rows are returned sorted by time with duplicate timestamps collapsed
+ * according to `duplicatePolicy`.
+ */
+export function buildDataset(rows: string[][], mapping: CsvMetadata, dateTimeOptions: DateTimeOptions,
+  duplicatePolicy: DuplicatePolicy = DEFAULT_DUPLICATE_POLICY): ParsedCsv {
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = rows[0].map(h => h.trim());
+  const dataRows = rows.slice(1);
+  const metadata: CsvMetadata = { ...mapping, headers, dateTimeFormat: null, invalidTimestampRows: [] };
+
+  // Resolve the time column format, detecting it from the values if needed
+  const timeIndex = metadata.dateTimeField !== null ? headers.indexOf(metadata.dateTimeField) : -1;
+  const dateTimeFormat = dateTimeOptions.format !== 'auto'
+    ? dateTimeOptions.format
+    : timeIndex >= 0 ? detectDateTimeFormat(dataRows.slice(0, 500).map(row => row[timeIndex] ?? '')) : null;
+  const parseDateTime = createDateTimeParser(dateTimeFormat, dateTimeOptions.timeZone);
+  metadata.dateTimeFormat = dateTimeFormat;
+
+  // Refine each plottable column's type; secondary date columns get their own parser
+  const plotColumns = [
+    ...metadata.numericFields.filter(field => field !== metadata.latitudeField && field !== metadata.longitudeField),
+    ...metadata.categoricalFields
+  ];
+  const fieldTypes = new Map(plotColumns.map(header => {
+    const index = headers.indexOf(header);
+    const values = dataRows.map(row => row[index] ?? '');
+    return [header, inferFieldType(values, metadata.numericFields.includes(header))] as const;
+  }));
+  const dateParsers = new Map<string, DateTimeParser>();
+  fieldTypes.forEach((type, header) => {
+    if (type.dataType === 'date') {
+      dateParsers.set(header, createDateTimeParser(type.dateTimeFormat, dateTimeOptions.timeZone));
+    }
+  });
+
+  // Read the cells straight into column buffers, still in file order,
+  // skipping rows whose timestamp cannot be read
+  const keptRows = new Int32Array(dataRows.length);
+  const keptTimes = new Float64Array(dataRows.length);
+  let rowCount = 0;
+  dataRows.forEach((row, rowIndex) => {
+    const time = timeIndex >= 0 ? parseDateTime(row[timeIndex] ?? '') : NaN;
+    if (time === null) {
+      metadata.invalidTimestampRows.push(rowIndex + 1);
+      return;
+    }
+    keptRows[rowCount] = rowIndex;
+    keptTimes[rowCount] = time;
+    rowCount++;
+  });
+
+  const cells = (header: string) => {
+    const index = headers.indexOf(header);
+    return (i: number) => (dataRows[keptRows[i]][index] ?? '').trim();
+  };
+  const numberColumn = (header: string, parse: (value: string) => number) => {
+    const cell = cells(header);
+    const values = new Float64Array(rowCount);
+    for (let i = 0; i < rowCount; i++) {
+      values[i] = parse(cell(i));
+    }
+    return values;
+  };
+
+  const data: ColumnStoreData = { times: keptTimes.slice(0, rowCount), numeric: {}, text: {} };
+  if (metadata.latitudeField) {
+    data.numeric['latitude'] = numberColumn(metadata.latitudeField, parseFloat);
+  }
+  if (metadata.longitudeField) {
+    data.numeric['longitude'] = numberColumn(metadata.longitudeField, parseFloat);
+  }
+  plotColumns.forEach(header => {
+    const parseDate = dateParsers.get(header);
+    if (metadata.numericFields.includes(header)) {
+      // Empty cells and words such as null parse to NaN, the missing value
+      data.numeric[header] = numberColumn(header, parseFloat);
+    } else if (parseDate) {
+      // Secondary dates are kept as epoch milliseconds so they plot like numbers
+      data.numeric[header] = numberColumn(header, value => parseDate(value) ?? NaN);
+    } else {
+      data.text[header] = textColumn(cells(header), rowCount);
+    }
+  });
+
+  // Create available fields for plotting (numeric and categorical fields, excluding lat/lng)
+  let lineCharts = 0;
+  let stateCharts = 0;
+  const fields: PlotField[] = plotColumns.map((field, index) => {
+    const dataType = fieldTypes.get(field)!.dataType;
+    const chartType = defaultChartType(dataType);
+    // Auto-select the first 2 line charts and the first state chart; dates are rarely plotted
+    const selected = dataType !== 'date' && (chartType === 'line' ? lineCharts++ < 2 : stateCharts++ < 1);
+    const unit = metadata.fieldUnits[field] ?? null;
+    // The unit is shown separately, so drop a matching suffix from the label
+    const labelSource = unit !== null && detectUnit(field) === unit ? stripUnitSuffix(field) : field;
+    return {
+      key: field,
+      label: formatFieldLabel(labelSource),
+      selected,
+      color: DEFAULT_COLORS[index % DEFAULT_COLORS.length],
+      dataType,
+      chartType,
+      unit
+    };
+  });
+
+  const averagedKeys = [...fields.filter(field => field.dataType === 'number').map(field => field.key), 'latitude', 'longitude'];
+  const ordered = orderByTime(data, duplicatePolicy, averagedKeys);
+
+  // Report on the rows in file order, before sorting hides the disorder
+  const quality = createQualityReport(dataRows, data, metadata, rowCount - ordered.times.length);
+
+  // A lone coordinate column is only kept for the report
+  if (!metadata.latitudeField || !metadata.longitudeField) {
+    delete ordered.numeric['latitude'];
+    delete ordered.numeric['longitude'];
+  }
+
+  return { data: new ColumnStore(ordered), metadata, fields, quality };
+}
+
+/** Dictionary-encode a text column; empty cells are kept as values. */
+function textColumn(cell: (row: number) => string, rowCount: number): TextColumn {
+  const dictionary: string[] = [];
+  const codeOf = new Map<string, number>();
+  const codes = new Int32Array(rowCount);
+  for (let i = 0; i < rowCount; i++) {
+    const value = cell(i);
+    let code = codeOf.get(value);
+    if (code === undefined) {
+      code = dictionary.push(value) - 1;
+      codeOf.set(value, code);
+    }
+    codes[i] = code;
+  }
+  return { codes, dictionary };
+}
+
+export function analyzeHeaders(headers: string[], numericColumns: string[]): CsvMetadata {
+  const numericFields: string[] = [];
+  const categoricalFields: string[] = [];
+  let dateTimeField: string | null = null;
+  let latitudeField: string | null = null;
+  let longitudeField: string | null = null;
+
+  // Analyze each header
+  headers.forEach(header => {
+    const lowerHeader = header.toLowerCase();
+
+    // Check for datetime field
+    if (!dateTimeField && (lowerHeader.includes('date') || lowerHeader.includes('time'))) {
+      dateTimeField = header;
+      return;
+    }
+
+    // Check for latitude field
+    if (!latitudeField && (lowerHeader.includes('lat') || lowerHeader === 'y')) {
+      latitudeField = header;
+      return;
+    }
+
+    // Check for longitude field
+    if (!longitudeField && (lowerHeader.includes('lon') || lowerHeader.includes('lng') || lowerHeader === 'x')) {
+      longitudeField = header;
+      return;
+    }
+
+    // Numeric columns were found by testing every value
+    if (numericColumns.includes(header)) {
+      numericFields.push(header);
+    } else {
+      // If not numeric, datetime, lat, or lng, it's categorical
+      categoricalFields.push(header);
+    }
+  });
+
+  const fieldUnits: { [column: string]: string } = {};
+  numericFields.forEach(header => {
+    const unit = detectUnit(header);
+    if (unit !== null) {
+      fieldUnits[header] = unit;
+    }
+  });
+
+  return {
+    headers,
+    numericFields,
+    categoricalFields,
+    dateTimeField,
+    latitudeField,
+    longitudeField,
+    excludedFields: [],
+    dateTimeFormat: null,
+    invalidTimestampRows: [],
+    fieldUnits,
+    inputFormat: 'csv'
+  };
+}
+
+function isNumericField(columnIndex: number, dataRows: string[][]): boolean {
+  // Check ALL data in the column to determine if it's purely numeric (with possible nulls)
+  let hasStringData = false;
+  let hasNumericData = false;
+  let totalValues = 0;
+
+  for (const row of dataRows) {
+    if (row[columnIndex]) {
+      const value = row[columnIndex].trim();
+      totalValues++;
+
+      // Skip empty/null values for type detection
+      if (value !== '' && value !== 'null' && value !== 'NULL' && value !== 'undefined') {
+        // Number() rather than parseFloat() so values such as dates are not read by their prefix
+        if (isFinite(Number(value))) {
+          hasNumericData = true;
+        } else {
+          hasStringData = true;
+        }
+      }
+    }
+  }
+
+  // A field is numeric if:
+  // 1. It has numeric data
+  // 2. It has NO string data (only numbers and nulls)
+  // 3. We have enough data to analyze
+  const isNumeric = hasNumericData && !hasStringData && totalValues > 0;
+
+  return isNumeric;
+}
+
+export function formatFieldLabel(fieldName: string): string {
+  return fieldName
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, l => l.toUpperCase());
+}
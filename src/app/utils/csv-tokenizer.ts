@@ -0,0 +1,137 @@
+/**
+ * Incremental RFC 4180 tokenizer.
+ *
+ * Handles quoted fields, escaped quotes (""), delimiters and newlines inside
+ * quotes, LF / CRLF / CR line endings and a leading UTF-8 BOM. Text can be fed
+ * in arbitrary chunks; state is carried across chunk boundaries so a quoted
+ * field or a CRLF pair may be split between two calls to write().
+ */
+export class CsvTokenizer {
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  private fieldWasQuoted = false;
+  private quotePending = false; // saw '"' inside quotes: either an escape or the closing quote
+  private skipNextLineFeed = false; // previous chunk ended on '\r'
+  private isFirstChunk = true;
+
+  constructor(private delimiter: string = ',') {}
+
+  public write(chunk: string): string[][] {
+    const rows: string[][] = [];
+    let text = chunk;
+
+    if (this.isFirstChunk && text.length > 0) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    const length = text.length;
+    let i = 0;
+
+    while (i < length) {
+      const char = text[i];
+
+      if (this.skipNextLineFeed) {
+        this.skipNextLineFeed = false;
+        if (char === '\n') {
+          i++;
+          continue;
+        }
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (char === '"') {
+          // Escaped quote inside a quoted field
+          this.field += '"';
+          i++;
+          continue;
+        }
+        // The pending quote closed the field; handle this char as unquoted
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        const nextQuote = text.indexOf('"', i);
+        if (nextQuote === -1) {
+          this.field += text.slice(i);
+          break;
+        }
+        this.field += text.slice(i, nextQuote);
+        this.quotePending = true;
+        i = nextQuote + 1;
+        continue;
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+        i++;
+      } else if (char === '\n' || char === '\r') {
+        this.endRow(rows);
+        this.skipNextLineFeed = char === '\r';
+        i++;
+      } else if (char === '"' && this.field === '' && !this.fieldWasQuoted) {
+        this.inQuotes = true;
+        this.fieldWasQuoted = true;
+        i++;
+      } else {
+        // Consume a run of ordinary characters in one slice. A stray quote in
+        // the middle of an unquoted field is kept literally.
+        let end = i + 1;
+        while (end < length) {
+          const next = text[end];
+          if (next === this.delimiter || next === '\n' || next === '\r' || next === '"') {
+            break;
+          }
+          end++;
+        }
+        this.field += text.slice(i, end);
+        i = end;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Flush the final row. An unterminated quoted field is closed at end of input.
+   */
+  public end(): string[][] {
+    const rows: string[][] = [];
+    this.quotePending = false;
+    this.inQuotes = false;
+
+    if (this.field !== '' || this.fieldWasQuoted || this.row.length > 0) {
+      this.endRow(rows);
+    }
+
+    return rows;
+  }
+
+  private endField(): void {
+    this.row.push(this.field);
+    this.field = '';
+    this.fieldWasQuoted = false;
+  }
+
+  private endRow(rows: string[][]): void {
+    this.endField();
+
+    // Skip blank lines
+    if (!(this.row.length === 1 && this.row[0] === '')) {
+      rows.push(this.row);
+    }
+    this.row = [];
+  }
+}
+
+/**
+ * Tokenize a complete CSV document into rows of raw field values.
+ */
+export function parseCsvText(text: string, delimiter: string = ','): string[][] {
+  const tokenizer = new CsvTokenizer(delimiter);
+  return tokenizer.write(text).concat(tokenizer.end());
+}
@@ -0,0 +1,122 @@
+import { ColumnStoreData, CsvMetadata, DataQualityReport, ColumnQuality, SamplingIntervalStats } from '../models/data.model';
+
+/**
+ * Summarize problems in a built file. `dataRows` are the tokenized rows
+ * without the header; `data` holds the columns built from them, still in
+ * file order, so out-of-order timestamps can be counted. Coordinates are
+ * under the 'latitude' and 'longitude' keys. `droppedDuplicateRows` is how
+ * many rows the duplicate policy collapsed.
+ */
+export function createQualityReport(dataRows: string[][], data: ColumnStoreData, metadata: CsvMetadata,
+  droppedDuplicateRows: number): DataQualityReport {
+  const { times } = data;
+
+  const wrongColumnCountRows: number[] = [];
+  dataRows.forEach((row, index) => {
+    if (row.length !== metadata.headers.length) {
+      wrongColumnCountRows.push(index + 1);
+    }
+  });
+
+  let outOfOrderTimestamps = 0;
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[i - 1]) {
+      outOfOrderTimestamps++;
+    }
+  }
+
+  const sortedTimes = times.slice().sort();
+  const intervals: number[] = [];
+  let duplicateTimestamps = 0;
+  for (let i = 1; i < sortedTimes.length; i++) {
+    const interval = sortedTimes[i] - sortedTimes[i - 1];
+    if (interval === 0) {
+      duplicateTimestamps++;
+    } else {
+      intervals.push(interval);
+    }
+  }
+
+  const hasCoordinates = metadata.latitudeField !== null && metadata.longitudeField !== null;
+
+  return {
+    rowCount: dataRows.length,
+    wrongColumnCountRows,
+    invalidTimestampRows: metadata.invalidTimestampRows,
+    outOfOrderTimestamps,
+    duplicateTimestamps,
+    droppedDuplicateRows,
+    columns: columnQuality(data, metadata),
+    invalidCoordinateRows: hasCoordinates ? countInvalidCoordinates(data) : 0,
+    samplingInterval: intervalStats(intervals)
+  };
+}
+
+function columnQuality(data: ColumnStoreData, metadata: CsvMetadata): ColumnQuality[] {
+  const rowCount = data.times.length;
+  return metadata.headers
+    .filter(header => header !== metadata.dateTimeField && !metadata.excludedFields.includes(header))
+    .map(header => {
+      // Coordinates are stored under fixed keys rather than their column name
+      const key = header === metadata.latitudeField ? 'latitude'
+        : header === metadata.longitudeField ? 'longitude'
+        : header;
+      const missing = countMissing(data, key);
+      return {
+        column: header,
+        nullPercent: rowCount > 0 ? (missing / rowCount) * 100 : 0
+      };
+    });
+}
+
+/** Rows where a column is missing or empty; a column that was not built counts as all missing. */
+function countMissing(data: ColumnStoreData, key: string): number {
+  const values = data.numeric[key];
+  const column = data.text[key];
+  let missing = 0;
+  for (let i = 0; i < data.times.length; i++) {
+    const empty = values
+      ? isNaN(values[i])
+      : !column || column.codes[i] < 0 || column.dictionary[column.codes[i]] === '';
+    if (empty) {
+      missing++;
+    }
+  }
+  return missing;
+}
+
+function countInvalidCoordinates(data: ColumnStoreData): number {
+  const latitudes = data.numeric['latitude'];
+  const longitudes = data.numeric['longitude'];
+  let invalid = 0;
+  for (let i = 0; i < data.times.length; i++) {
+    if (!latitudes || !longitudes || !isValidCoordinate(latitudes[i], longitudes[i])) {
+      invalid++;
+    }
+  }
+  return invalid;
+}
+
+function isValidCoordinate(latitude: number, longitude: number): boolean {
+  // Receivers without a fix commonly log 0,0
+  return isFinite(latitude) && isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 &&
+    !(latitude === 0 && longitude === 0);
+}
+
+function intervalStats(intervals: number[]): SamplingIntervalStats | null {
+  if (intervals.length === 0) {
+    return null;
+  }
+
+  const sorted = Float64Array.from(intervals).sort();
+  const middle = sorted.length >> 1;
+  const total = intervals.reduce((sum, interval) => sum + interval, 0);
+
+  return {
+    minMs: sorted[0],
+    medianMs: sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    meanMs: total / intervals.length,
+    maxMs: sorted[sorted.length - 1]
+  };
+}
@@ -0,0 +1,233 @@
+import { DateTimeFormat } from '../models/data.model';
+
+export type ResolvedDateTimeFormat = Exclude<DateTimeFormat, 'auto'>;
+
+/** Parses one cell to epoch milliseconds, or null if it is not a valid timestamp. */
+export type DateTimeParser = (value: string) => number | null;
+
+const ISO_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+const SLASH_PATTERN = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})(?:[T ]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?\s*(AM|PM)?)?$/i;
+const ELAPSED_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d+))?$/;
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+// What the Date fallback accepts: a four-digit year plus a month name or date
+// separators. Date() on its own reads bare numbers like "5" as years.
+const YEAR_PATTERN = /(?:^|\D)\d{4}(?:\D|$)/;
+const DATE_SHAPE_PATTERN = /[A-Za-z]{3}|\d[\/.:-]\d/;
+
+// Epoch values above these magnitudes are treated as timestamps (after ~1973)
+const EPOCH_MS_THRESHOLD = 1e11;
+const EPOCH_S_THRESHOLD = 1e8;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Guess the format of a datetime column from a sample of its values.
+ * Returns null when no supported format matches every sample.
+ */
+export function detectDateTimeFormat(values: string[]): ResolvedDateTimeFormat | null {
+  const samples = values.map(v => v.trim()).filter(v => v !== '').slice(0, 500);
+  if (samples.length === 0) {
+    return null;
+  }
+
+  if (samples.every(v => NUMBER_PATTERN.test(v))) {
+    const magnitude = Math.max(...samples.map(v => Math.abs(parseFloat(v))));
+    if (magnitude >= EPOCH_MS_THRESHOLD) {
+      return 'epoch-ms';
+    }
+    return magnitude >= EPOCH_S_THRESHOLD ? 'epoch-s' : null;
+  }
+
+  if (samples.every(v => ISO_PATTERN.test(v))) {
+    return 'iso';
+  }
+
+  if (samples.every(v => SLASH_PATTERN.test(v))) {
+    // The first component can only be a day if it exceeds 12 somewhere;
+    // otherwise fall back to the US month-first order
+    let firstExceeds12 = false;
+    let secondExceeds12 = false;
+    for (const value of samples) {
+      const match = SLASH_PATTERN.exec(value)!;
+      firstExceeds12 = firstExceeds12 || +match[1] > 12;
+      secondExceeds12 = secondExceeds12 || +match[2] > 12;
+    }
+    return firstExceeds12 && !secondExceeds12 ? 'dmy' : 'mdy';
+  }
+
+  if (samples.every(v => ELAPSED_PATTERN.test(v))) {
+    return 'elapsed';
+  }
+
+  return null;
+}
+
+/**
+ * Build a parser for one column. Values without an explicit offset are read
+ * as wall-clock time in `timeZone` ('local', 'UTC' or an IANA zone name).
+ * A null format falls back to the browser's Date parser, for values with a
+ * year and a month name or date separators; anything else is invalid.
+ *
+ * The elapsed parser is stateful: loggers that only write mm:ss wrap every
+ * hour, so a backwards jump of more than half an hour is read as a rollover.
+ * Elapsed times are placed on 1970-01-01 in the selected zone.
+ */
+export function createDateTimeParser(format: ResolvedDateTimeFormat | null, timeZone: string): DateTimeParser {
+  const toEpoch = createWallClockConverter(timeZone);
+
+  switch (format) {
+    case 'iso':
+      return value => {
+        const match = ISO_PATTERN.exec(value.trim());
+        if (!match) {
+          return null;
+        }
+        const [, year, month, day, hour, minute, second, fraction, offset] = match;
+        const wallClock = [+year, +month, +day, +(hour ?? 0), +(minute ?? 0), +(second ?? 0), fractionToMs(fraction)] as const;
+        if (!isValidWallClock(...wallClock)) {
+          return null;
+        }
+        if (offset) {
+          return Date.UTC(wallClock[0], wallClock[1] - 1, wallClock[2], wallClock[3], wallClock[4], wallClock[5], wallClock[6])
+            - parseOffset(offset);
+        }
+        return toEpoch(...wallClock);
+      };
+
+    case 'mdy':
+    case 'dmy':
+      return value => {
+        const match = SLASH_PATTERN.exec(value.trim());
+        if (!match) {
+          return null;
+        }
+        const [, first, second, yearText, hourText, minute, secondText, fraction, meridiem] = match;
+        const month = format === 'mdy' ? +first : +second;
+        const day = format === 'mdy' ? +second : +first;
+        const year = yearText.length === 2 ? 2000 + +yearText : +yearText;
+        let hour = +(hourText ?? 0);
+        if (meridiem) {
+          hour = (hour % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+        }
+        const wallClock = [year, month, day, hour, +(minute ?? 0), +(secondText ?? 0), fractionToMs(fraction)] as const;
+        return isValidWallClock(...wallClock) ? toEpoch(...wallClock) : null;
+      };
+
+    case 'epoch-s':
+    case 'epoch-ms':
+      return value => {
+        const trimmed = value.trim();
+        if (!NUMBER_PATTERN.test(trimmed)) {
+          return null;
+        }
+        const number = parseFloat(trimmed);
+        return format === 'epoch-s' ? Math.round(number * 1000) : number;
+      };
+
+    case 'elapsed': {
+      const base = toEpoch(1970, 1, 1, 0, 0, 0, 0);
+      let previous: number | null = null;
+      let rolloverMs = 0;
+
+      return value => {
+        const match = ELAPSED_PATTERN.exec(value.trim());
+        if (!match) {
+          return null;
+        }
+        const [, hours, minutes, seconds, fraction] = match;
+        if (+seconds >= 60 || (hours !== undefined && +minutes >= 60)) {
+          return null;
+        }
+
+        const offset = ((+(hours ?? 0) * 60 + +minutes) * 60 + +seconds) * 1000 + fractionToMs(fraction);
+        if (hours === undefined && previous !== null && offset + rolloverMs < previous - HOUR_MS / 2) {
+          rolloverMs += HOUR_MS;
+        }
+        previous = offset + rolloverMs;
+        return base + previous;
+      };
+    }
+
+    default:
+      return value => {
+        const trimmed = value.trim();
+        if (!YEAR_PATTERN.test(trimmed) || !DATE_SHAPE_PATTERN.test(trimmed)) {
+          return null;
+        }
+        const time = new Date(trimmed).getTime();
+        return isNaN(time) ? null : time;
+      };
+  }
+}
+
+type WallClockConverter = (year: number, month: number, day: number, hour: number,
+  minute: number, second: number, millisecond: number) => number;
+
+function createWallClockConverter(timeZone: string): WallClockConverter {
+  if (timeZone === 'local') {
+    return (year, month, day, hour, minute, second, ms) =>
+      new Date(year, month - 1, day, hour, minute, second, ms).getTime();
+  }
+
+  if (timeZone === 'UTC') {
+    return (year, month, day, hour, minute, second, ms) =>
+      Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  }
+
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+
+  // Zone offsets only change on the hour, so cache them per hour of UTC time
+  const offsetCache = new Map<number, number>();
+  const offsetAt = (utcMs: number): number => {
+    const hourKey = Math.floor(utcMs / HOUR_MS);
+    let offset = offsetCache.get(hourKey);
+    if (offset === undefined) {
+      const parts: { [type: string]: number } = {};
+      for (const part of formatter.formatToParts(new Date(hourKey * HOUR_MS))) {
+        parts[part.type] = +part.value;
+      }
+      const zonedAsUtc = Date.UTC(parts['year'], parts['month'] - 1, parts['day'],
+        parts['hour'], parts['minute'], parts['second']);
+      offset = zonedAsUtc - hourKey * HOUR_MS;
+      offsetCache.set(hourKey, offset);
+    }
+    return offset;
+  };
+
+  return (year, month, day, hour, minute, second, ms) => {
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+    const firstGuess = asUtc - offsetAt(asUtc);
+    // Re-check once so times next to a DST change pick up the right offset
+    return asUtc - offsetAt(firstGuess);
+  };
+}
+
+function isValidWallClock(year: number, month: number, day: number, hour: number,
+  minute: number, second: number, _ms: number): boolean {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+    hour < 24 && minute < 60 && second < 61;
+}
+
+function fractionToMs(fraction: string | undefined): number {
+  return fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0;
+}
+
+function parseOffset(offset: string): number {
+  if (offset.toUpperCase() === 'Z') {
+    return 0;
+  }
+  const sign = offset[0] === '-' ? -1 : 1;
+  const digits = offset.slice(1).replace(':', '');
+  return sign * (+digits.slice(0, 2) * 60 + +digits.slice(2, 4)) * 60 * 1000;
+}
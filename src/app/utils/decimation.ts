@@ -0,0 +1,133 @@
+import { DecimationMethod } from '../models/data.model';
+
+/*
+ * Shape-preserving decimation of a line series. Both methods return row
+ * indices in ascending order, always including the first and last row, so
+ * the drawn line spans the same time range as the data.
+ */
+
+/**
+ * Pick at most about `target` of rows [from, to) with the given method. When
+ * the rows already fit, all of them are returned.
+ */
+export function decimate(method: DecimationMethod, times: Float64Array, values: Float64Array,
+  from: number, to: number, target: number): number[] {
+  if (to - from <= target || target < 4) {
+    return range(from, to);
+  }
+  return method === 'lttb'
+    ? largestTriangleThreeBuckets(times, values, from, to, target)
+    : minMaxPerBucket(values, from, to, Math.floor(target / 2));
+}
+
+/**
+ * Keep the lowest and highest value of each bucket (typically one bucket per
+ * pixel column), so every spike and drop stays visible. A bucket with missing
+ * values also keeps its first missing row so gaps in the line survive.
+ */
+export function minMaxPerBucket(values: Float64Array, from: number, to: number, buckets: number): number[] {
+  const indices: number[] = [from];
+  const size = (to - from) / buckets;
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const start = from + Math.floor(bucket * size);
+    const end = Math.min(to, from + Math.floor((bucket + 1) * size));
+    let minIndex = -1;
+    let maxIndex = -1;
+    let gapIndex = -1;
+
+    for (let i = start; i < end; i++) {
+      const value = values[i];
+      if (isNaN(value)) {
+        gapIndex = gapIndex < 0 ? i : gapIndex;
+      } else {
+        if (minIndex < 0 || value < values[minIndex]) {
+          minIndex = i;
+        }
+        if (maxIndex < 0 || value > values[maxIndex]) {
+          maxIndex = i;
+        }
+      }
+    }
+
+    const picked = [minIndex, maxIndex, gapIndex]
+      .filter((index, position, all) => index >= 0 && all.indexOf(index) === position)
+      .sort((a, b) => a - b);
+    for (const index of picked) {
+      if (index > indices[indices.length - 1]) {
+        indices.push(index);
+      }
+    }
+  }
+
+  if (indices[indices.length - 1] !== to - 1) {
+    indices.push(to - 1);
+  }
+  return indices;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets (Steinarsson, 2013): from each bucket keep
+ * the row forming the largest triangle with the previously kept row and the
+ * average of the next bucket. Missing values are skipped; a bucket with only
+ * missing values keeps its first row so the gap is drawn.
+ */
+export function largestTriangleThreeBuckets(times: Float64Array, values: Float64Array,
+  from: number, to: number, threshold: number): number[] {
+  const indices: number[] = [from];
+  // The first and last rows are kept as they are; the rest is split evenly
+  const size = (to - from - 2) / (threshold - 2);
+  let previous = from;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    const start = from + 1 + Math.floor(bucket * size);
+    const end = from + 1 + Math.floor((bucket + 1) * size);
+
+    // Average point of the next bucket (the last row for the final bucket)
+    const nextStart = end;
+    const nextEnd = Math.min(to, from + 1 + Math.floor((bucket + 2) * size));
+    let averageTime = 0;
+    let averageValue = 0;
+    let count = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      if (!isNaN(values[i])) {
+        averageTime += times[i];
+        averageValue += values[i];
+        count++;
+      }
+    }
+    if (count > 0) {
+      averageTime /= count;
+      averageValue /= count;
+    } else {
+      averageTime = times[to - 1];
+      averageValue = values[to - 1];
+    }
+
+    let best = -1;
+    let bestArea = -1;
+    for (let i = start; i < end; i++) {
+      if (isNaN(values[i])) {
+        continue;
+      }
+      const area = isNaN(values[previous])
+        ? Math.abs(values[i] - averageValue)
+        : Math.abs((times[previous] - averageTime) * (values[i] - values[previous]) -
+          (times[previous] - times[i]) * (averageValue - values[previous]));
+      if (area > bestArea) {
+        bestArea = area;
+        best = i;
+      }
+    }
+
+    previous = best >= 0 ? best : start;
+    indices.push(previous);
+  }
+
+  indices.push(to - 1);
+  return indices;
+}
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: Math.max(0, to - from) }, (_, i) => from + i);
+}
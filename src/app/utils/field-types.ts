@@ -0,0 +1,84 @@
+import { PlotField } from '../models/data.model';
+import { detectDateTimeFormat, ResolvedDateTimeFormat } from './datetime-parser';
+
+export type FieldDataType = PlotField['dataType'];
+
+export interface InferredFieldType {
+  dataType: FieldDataType;
+  dateTimeFormat: ResolvedDateTimeFormat | null; // Set for 'date' columns
+}
+
+// Text columns with at most this many distinct values are treated as enums
+const MAX_ENUM_VALUES = 20;
+
+// Whole-number columns with at most this many distinct values are read as
+// coded states, e.g. a throttle notch from 0 to 8
+const MAX_INTEGER_STATES = 16;
+
+const BOOLEAN_PAIRS = [
+  ['true', 'false'],
+  ['on', 'off'],
+  ['yes', 'no'],
+  ['t', 'f'],
+  ['y', 'n']
+];
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+/**
+ * Refine the type of a column beyond numeric vs. text. `values` are the raw
+ * cells of the column; `numeric` tells whether the column is mapped as a
+ * number.
+ */
+export function inferFieldType(values: string[], numeric: boolean): InferredFieldType {
+  const present = values.map(v => v.trim()).filter(v => !isMissingValue(v));
+  const distinct = new Set(present);
+
+  if (numeric) {
+    const distinctNumbers = new Set(present.map(v => parseFloat(v)));
+    if (distinctNumbers.size === 2 && distinctNumbers.has(0) && distinctNumbers.has(1)) {
+      return { dataType: 'boolean', dateTimeFormat: null };
+    }
+    if (distinct.size <= MAX_INTEGER_STATES && present.every(v => INTEGER_PATTERN.test(v))) {
+      return { dataType: 'integer', dateTimeFormat: null };
+    }
+    return { dataType: 'number', dateTimeFormat: null };
+  }
+
+  if (distinct.size > 0) {
+    const lowerCase = [...distinct].map(v => v.toLowerCase());
+    if (BOOLEAN_PAIRS.some(pair => lowerCase.every(v => pair.includes(v)))) {
+      return { dataType: 'boolean', dateTimeFormat: null };
+    }
+
+    // Only calendar dates: bare numbers and mm:ss values are more likely data
+    const format = detectDateTimeFormat(present.slice(0, 500));
+    if (format === 'iso' || format === 'mdy' || format === 'dmy') {
+      return { dataType: 'date', dateTimeFormat: format };
+    }
+  }
+
+  return { dataType: distinct.size <= MAX_ENUM_VALUES ? 'enum' : 'string', dateTimeFormat: null };
+}
+
+/**
+ * Continuous values are drawn as lines; flags, enums and coded states as
+ * state bands. This is only the starting point for coded states, see
+ * canChangeChartType.
+ */
+export function defaultChartType(dataType: FieldDataType): PlotField['chartType'] {
+  return dataType === 'number' || dataType === 'date' ? 'line' : 'state';
+}
+
+/**
+ * Coded states are numbers too, so the user can draw them as lines instead,
+ * e.g. to overlay a throttle notch on speed. Text columns cannot be lines,
+ * and continuous values would break into one state per sample.
+ */
+export function canChangeChartType(dataType: FieldDataType): boolean {
+  return dataType === 'integer';
+}
+
+export function isMissingValue(value: string): boolean {
+  return value === '' || value === 'null' || value === 'NULL' || value === 'undefined';
+}
@@ -0,0 +1,411 @@
+import { DEFAULT_COLORS, DerivedFieldDefinition, PlotField } from '../models/data.model';
+import { ColumnStore } from './column-store';
+import { MergedDataset } from './merge-sources';
+
+/**
+ * A small expression language for derived fields. Formulas are parsed into a
+ * tree and evaluated a whole column at a time, never with eval(). Columns are
+ * referred to by key, as in speed * 1.609, or in backticks when the key has
+ * other characters, as in if(throttle > 0, `Brake pipe` - 70, 0). Missing
+ * values are NaN and stay missing through arithmetic.
+ */
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '<' | '<=' | '>' | '>=' | '==' | '!=' | '&&' | '||';
+
+type FormulaNode =
+  | { type: 'number', value: number }
+  | { type: 'column', key: string }
+  | { type: 'unary', operator: '-' | '!', operand: FormulaNode }
+  | { type: 'binary', operator: BinaryOperator, left: FormulaNode, right: FormulaNode }
+  | { type: 'call', name: string, args: FormulaNode[] };
+
+export interface Formula {
+  root: FormulaNode;
+  columns: string[]; // Column keys the formula reads
+}
+
+interface FormulaFunction {
+  signature: string;
+  description: string;
+  arity: number;
+  constantArgs?: number[]; // Positions that must be plain numbers
+  apply(args: Float64Array[], times: Float64Array): Float64Array;
+}
+
+const FUNCTIONS: { [name: string]: FormulaFunction } = {
+  abs: elementwise('abs(x)', 'Absolute value', Math.abs),
+  sqrt: elementwise('sqrt(x)', 'Square root', Math.sqrt),
+  log: elementwise('log(x)', 'Natural logarithm', Math.log),
+  exp: elementwise('exp(x)', 'e to the power x', Math.exp),
+  round: elementwise('round(x)', 'Nearest integer', Math.round),
+  min: elementwise('min(a, b)', 'Smaller of two values', Math.min),
+  max: elementwise('max(a, b)', 'Larger of two values', Math.max),
+  clamp: elementwise('clamp(x, low, high)', 'x limited to [low, high]',
+    (x, low, high) => Math.min(Math.max(x, low), high)),
+  if: elementwise('if(condition, a, b)', 'a where the condition is non-zero, otherwise b',
+    (condition, a, b) => isNaN(condition) ? NaN : condition !== 0 ? a : b),
+  diff: {
+    signature: 'diff(x)',
+    description: 'Change from the previous row',
+    arity: 1,
+    apply: ([x]) => x.map((value, i) => i > 0 ? value - x[i - 1] : NaN)
+  },
+  deriv: {
+    signature: 'deriv(x)',
+    description: 'Rate of change per second',
+    arity: 1,
+    apply: ([x], times) => x.map((value, i) => {
+      const seconds = i > 0 ? (times[i] - times[i - 1]) / 1000 : 0;
+      return seconds > 0 ? (value - x[i - 1]) / seconds : NaN;
+    })
+  },
+  rolling_mean: {
+    signature: 'rolling_mean(x, rows)',
+    description: 'Mean of the last rows values, skipping missing ones',
+    arity: 2,
+    constantArgs: [1],
+    apply: ([x, [rows]]) => rollingMean(x, Math.max(1, Math.round(rows)))
+  }
+};
+
+/** Function signatures and descriptions, for help text. */
+export const FORMULA_FUNCTIONS = Object.values(FUNCTIONS).map(({ signature, description }) => ({ signature, description }));
+
+export function parseFormula(source: string): Formula {
+  const parser = new FormulaParser(tokenize(source));
+  const root = parser.parse();
+  const columns = new Set<string>();
+  collectColumns(root, columns);
+  return { root, columns: [...columns] };
+}
+
+/** Check that every column a formula reads exists and is numeric. */
+export function checkFormulaColumns(formula: Formula, data: ColumnStore): void {
+  for (const key of formula.columns) {
+    if (!data.has(key)) {
+      throw new FormulaError(`Unknown column "${key}"`);
+    }
+    if (!data.isNumeric(key)) {
+      throw new FormulaError(`Column "${key}" is not numeric`);
+    }
+  }
+}
+
+/** Evaluate a formula for every row; NaN where the result is missing. */
+export function evaluateFormula(formula: Formula, data: ColumnStore): Float64Array {
+  checkFormulaColumns(formula, data);
+  return evaluate(formula.root, data);
+}
+
+/** A dataset with a derived field computed and added as a numeric column. */
+export function addDerivedField<T extends MergedDataset>(dataset: T, definition: DerivedFieldDefinition): T {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(definition.key)) {
+    throw new FormulaError('A name starts with a letter or _ and has only letters, digits and _');
+  }
+  // Columns kept out of the field list, like latitude and longitude, count too
+  if (dataset.fields.some(field => field.key === definition.key) || dataset.data.has(definition.key)) {
+    throw new FormulaError(`A field named "${definition.key}" already exists`);
+  }
+  const values = evaluateFormula(parseFormula(definition.expression), dataset.data);
+  const field: PlotField = {
+    key: definition.key,
+    label: definition.key,
+    selected: false,
+    color: DEFAULT_COLORS[dataset.fields.length % DEFAULT_COLORS.length],
+    dataType: 'number',
+    chartType: 'line',
+    unit: definition.unit
+  };
+  const { metadata } = dataset;
+  return {
+    ...dataset,
+    data: dataset.data.withNumbers(definition.key, values),
+    fields: [...dataset.fields, field],
+    metadata: {
+      ...metadata,
+      headers: [...metadata.headers, definition.key],
+      numericFields: [...metadata.numericFields, definition.key],
+      fieldUnits: definition.unit ? { ...metadata.fieldUnits, [definition.key]: definition.unit } : metadata.fieldUnits
+    }
+  };
+}
+
+type Token =
+  | { type: 'number', value: number, position: number }
+  | { type: 'name', value: string, position: number }
+  | { type: 'column', value: string, position: number } // Backtick-quoted
+  | { type: 'symbol', value: string, position: number }
+  | { type: 'end', position: number };
+
+const SYMBOLS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '(', ')', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const space = /^\s+/.exec(rest);
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest);
+    const name = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(rest);
+    const symbol = SYMBOLS.find(candidate => rest.startsWith(candidate));
+
+    if (space) {
+      i += space[0].length;
+    } else if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: i });
+      i += number[0].length;
+    } else if (name) {
+      tokens.push({ type: 'name', value: name[0], position: i });
+      i += name[0].length;
+    } else if (rest[0] === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end < 0) {
+        throw new FormulaError(`Unclosed \` at position ${i + 1}`);
+      }
+      tokens.push({ type: 'column', value: source.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else if (symbol) {
+      tokens.push({ type: 'symbol', value: symbol, position: i });
+      i += symbol.length;
+    } else {
+      throw new FormulaError(`Unexpected "${rest[0]}" at position ${i + 1}`);
+    }
+  }
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+// Binary operators from loosest to tightest binding; ^ is handled separately
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!=', '<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+class FormulaParser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'end') {
+      throw new FormulaError('The formula is empty');
+    }
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new FormulaError(`Unexpected ${describe(next)} at position ${next.position + 1}`);
+    }
+    return node;
+  }
+
+  private parseBinary(level: number): FormulaNode {
+    if (level === PRECEDENCE.length) {
+      return this.parseUnary();
+    }
+    let node = this.parseBinary(level + 1);
+    let token = this.peek();
+    while (token.type === 'symbol' && (PRECEDENCE[level] as string[]).includes(token.value)) {
+      this.index++;
+      node = { type: 'binary', operator: token.value as BinaryOperator, left: node, right: this.parseBinary(level + 1) };
+      token = this.peek();
+    }
+    return node;
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.type === 'symbol' && (token.value === '-' || token.value === '!')) {
+      this.index++;
+      return { type: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parsePrimary();
+    const token = this.peek();
+    if (token.type === 'symbol' && token.value === '^') {
+      this.index++;
+      // Right-associative, and binds tighter than a unary minus on its left
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() };
+    }
+    return base;
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.tokens[this.index++];
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'column':
+        return { type: 'column', key: token.value };
+      case 'name':
+        return this.isSymbol('(') ? this.parseCall(token.value, token.position) : { type: 'column', key: token.value };
+      case 'symbol':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expect(')');
+          return node;
+        }
+    }
+    throw new FormulaError(`Unexpected ${describe(token)} at position ${token.position + 1}`);
+  }
+
+  private parseCall(name: string, position: number): FormulaNode {
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      throw new FormulaError(`Unknown function "${name}" at position ${position + 1}`);
+    }
+    this.expect('(');
+    const args: FormulaNode[] = [];
+    if (!this.isSymbol(')')) {
+      args.push(this.parseBinary(0));
+      while (this.isSymbol(',')) {
+        this.index++;
+        args.push(this.parseBinary(0));
+      }
+    }
+    this.expect(')');
+
+    if (args.length !== definition.arity) {
+      throw new FormulaError(`${definition.signature} takes ${definition.arity} argument${definition.arity === 1 ? '' : 's'}`);
+    }
+    for (const index of definition.constantArgs ?? []) {
+      if (args[index].type !== 'number') {
+        throw new FormulaError(`Argument ${index + 1} of ${definition.signature} must be a number`);
+      }
+    }
+    return { type: 'call', name, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isSymbol(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.peek();
+    if (!this.isSymbol(value)) {
+      throw new FormulaError(`Expected "${value}" but found ${describe(token)} at position ${token.position + 1}`);
+    }
+    this.index++;
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'end':
+      return 'end of the formula';
+    case 'number':
+      return `number ${token.value}`;
+    case 'column':
+      return `\`${token.value}\``;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+function collectColumns(node: FormulaNode, columns: Set<string>): void {
+  switch (node.type) {
+    case 'column':
+      columns.add(node.key);
+      break;
+    case 'unary':
+      collectColumns(node.operand, columns);
+      break;
+    case 'binary':
+      collectColumns(node.left, columns);
+      collectColumns(node.right, columns);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectColumns(arg, columns));
+      break;
+  }
+}
+
+function evaluate(node: FormulaNode, data: ColumnStore): Float64Array {
+  switch (node.type) {
+    case 'number':
+      return new Float64Array(data.length).fill(node.value);
+    case 'column':
+      return data.numbers(node.key) as Float64Array;
+    case 'unary': {
+      const operand = evaluate(node.operand, data);
+      return node.operator === '-'
+        ? operand.map(value => -value)
+        : operand.map(value => isNaN(value) ? NaN : Number(value === 0));
+    }
+    case 'binary': {
+      const operation = BINARY_OPERATIONS[node.operator];
+      const left = evaluate(node.left, data);
+      const right = evaluate(node.right, data);
+      return left.map((value, i) => operation(value, right[i]));
+    }
+    case 'call':
+      return FUNCTIONS[node.name].apply(node.args.map(arg => evaluate(arg, data)), data.times);
+  }
+}
+
+// Comparisons and logic give 1 or 0, or NaN when an operand is missing
+const BINARY_OPERATIONS: { [operator in BinaryOperator]: (a: number, b: number) => number } = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => a / b,
+  '%': (a, b) => a % b,
+  '^': (a, b) => Math.pow(a, b),
+  '<': logical((a, b) => a < b),
+  '<=': logical((a, b) => a <= b),
+  '>': logical((a, b) => a > b),
+  '>=': logical((a, b) => a >= b),
+  '==': logical((a, b) => a === b),
+  '!=': logical((a, b) => a !== b),
+  '&&': logical((a, b) => a !== 0 && b !== 0),
+  '||': logical((a, b) => a !== 0 || b !== 0)
+};
+
+function logical(test: (a: number, b: number) => boolean): (a: number, b: number) => number {
+  return (a, b) => isNaN(a) || isNaN(b) ? NaN : Number(test(a, b));
+}
+
+function elementwise(signature: string, description: string, operation: (...values: number[]) => number): FormulaFunction {
+  return {
+    signature,
+    description,
+    arity: operation.length,
+    apply: args => args[0].map((_, i) => operation(...args.map(values => values[i])))
+  };
+}
+
+function rollingMean(values: Float64Array, rows: number): Float64Array {
+  const result = new Float64Array(values.length);
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (!isNaN(values[i])) {
+      sum += values[i];
+      count++;
+    }
+    const leaving = i - rows;
+    if (leaving >= 0 && !isNaN(values[leaving])) {
+      sum -= values[leaving];
+      count--;
+    }
+    result[i] = count > 0 ? sum / count : NaN;
+  }
+  return result;
+}
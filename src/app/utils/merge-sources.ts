@@ -0,0 +1,158 @@
+import { ColumnStoreData, DataSource, MergeOptions, PlotField, CsvMetadata, DEFAULT_COLORS } from '../models/data.model';
+import { ColumnStore } from './column-store';
+
+export interface MergedDataset {
+  data: ColumnStore;
+  metadata: CsvMetadata;
+  fields: PlotField[];
+}
+
+/**
+ * Combine several sources onto one timeline.
+ *
+ * Field keys are namespaced as `<sourceId>.<column>` so columns with the same
+ * name in different files stay apart. Rows are matched by timestamp: each row
+ * of a later source joins the nearest not-yet-matched row within the
+ * tolerance (or the row with the identical time in 'exact' mode); rows
+ * without a match become new rows on the timeline. Coordinates come from the
+ * first source that has them.
+ */
+export function mergeSources(sources: DataSource[], options: MergeOptions): MergedDataset {
+  const toleranceMs = options.mode === 'exact' ? 0 : options.toleranceMs;
+  const coordinateSource = sources.find(s => s.metadata.latitudeField && s.metadata.longitudeField) ?? null;
+
+  // The merged timeline, and for each source the row it takes at each time (-1 for none)
+  let times: number[] = [];
+  let sourceRows: number[][] = [];
+  const fields: PlotField[] = [];
+
+  sources.forEach((source, sourceIndex) => {
+    source.fields.forEach(field => {
+      fields.push({
+        ...field,
+        key: namespacedKey(source.id, field.key),
+        label: `${source.id}: ${field.label}`,
+        // Keep the default selection of the first file only
+        selected: sourceIndex === 0 && field.selected
+      });
+    });
+
+    // Source rows are already in time order
+    const store = source.data;
+    const rows: number[] = new Array(times.length).fill(-1);
+    sourceRows.push(rows);
+    const matched = new Uint8Array(times.length);
+    const unmatched: number[] = [];
+
+    for (let row = 0; row < store.length; row++) {
+      const index = findNearestUnmatched(times, matched, store.time(row), toleranceMs);
+      if (index >= 0) {
+        matched[index] = 1;
+        rows[index] = row;
+      } else {
+        unmatched.push(row);
+      }
+    }
+
+    if (unmatched.length > 0) {
+      for (const row of unmatched) {
+        times.push(store.time(row));
+        sourceRows.forEach(other => other.push(other === rows ? row : -1));
+      }
+      const order = times.map((_, index) => index).sort((a, b) => times[a] - times[b]);
+      times = order.map(index => times[index]);
+      sourceRows = sourceRows.map(other => order.map(index => other[index]));
+    }
+  });
+
+  const data: ColumnStoreData = { times: Float64Array.from(times), numeric: {}, text: {} };
+  sources.forEach((source, sourceIndex) => {
+    const aligned = source.data.select(sourceRows[sourceIndex]);
+    const keys = source.fields.map(field => field.key);
+    for (const key of keys) {
+      const numbers = aligned.numbers(key);
+      const text = aligned.text(key);
+      if (numbers) {
+        data.numeric[namespacedKey(source.id, key)] = numbers;
+      } else if (text) {
+        data.text[namespacedKey(source.id, key)] = text;
+      }
+    }
+    if (source === coordinateSource) {
+      data.numeric['latitude'] = aligned.numbers('latitude') ?? new Float64Array(times.length).fill(NaN);
+      data.numeric['longitude'] = aligned.numbers('longitude') ?? new Float64Array(times.length).fill(NaN);
+    }
+  });
+
+  fields.forEach((field, index) => field.color = DEFAULT_COLORS[index % DEFAULT_COLORS.length]);
+
+  const metadata: CsvMetadata = {
+    headers: fields.map(field => field.key),
+    numericFields: fields.filter(field => field.chartType === 'line').map(field => field.key),
+    categoricalFields: fields.filter(field => field.chartType !== 'line').map(field => field.key),
+    dateTimeField: 'datetime',
+    latitudeField: coordinateSource ? 'latitude' : null,
+    longitudeField: coordinateSource ? 'longitude' : null,
+    excludedFields: [],
+    dateTimeFormat: sources.length > 0 ? sources[0].metadata.dateTimeFormat : null,
+    invalidTimestampRows: [],
+    fieldUnits: Object.fromEntries(fields
+      .filter(field => field.unit !== null)
+      .map(field => [field.key, field.unit as string])),
+    inputFormat: sources.length > 0 ? sources[0].metadata.inputFormat : 'csv'
+  };
+
+  return { data: new ColumnStore(data), metadata, fields };
+}
+
+/**
+ * Derive a short identifier for a file, unique among `existingIds`.
+ */
+export function createSourceId(fileName: string, existingIds: string[]): string {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_-]+/g, '_') || 'file';
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}_${suffix}`;
+  }
+  return id;
+}
+
+function namespacedKey(sourceId: string, key: string): string {
+  return `${sourceId}.${key}`;
+}
+
+function findNearestUnmatched(times: number[], matched: Uint8Array, time: number, toleranceMs: number): number {
+  // Binary search for the first time >= target
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (times[mid] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  let best = -1;
+  let bestDistance = Infinity;
+
+  for (let i = low; i < times.length && times[i] - time <= toleranceMs; i++) {
+    if (!matched[i]) {
+      best = i;
+      bestDistance = times[i] - time;
+      break;
+    }
+  }
+
+  for (let i = low - 1; i >= 0 && time - times[i] <= toleranceMs; i--) {
+    if (!matched[i]) {
+      if (time - times[i] < bestDistance) {
+        best = i;
+      }
+      break;
+    }
+  }
+
+  return best;
+}
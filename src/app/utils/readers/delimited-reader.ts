@@ -0,0 +1,47 @@
+import { CsvTokenizer } from '../csv-tokenizer';
+import { InputReader, ResolvedInputFormat, RowParser } from './input-reader';
+
+// Numbers written with a decimal comma, optionally with '.' thousands separators
+const DECIMAL_COMMA_PATTERN = /^[-+]?\d{1,3}(?:\.\d{3})*,\d+$|^[-+]?\d+,\d+$/;
+
+/**
+ * Reader for delimiter-separated text. Tab- and semicolon-separated files
+ * usually come from locales that write decimal commas, so numbers such as
+ * `12,5` are rewritten as `12.5` for those formats.
+ */
+export function createDelimitedReader(format: ResolvedInputFormat, label: string, delimiter: string,
+  extensions: string[]): InputReader {
+  const readsDecimalComma = delimiter !== ',';
+
+  return {
+    format,
+    label,
+    extensions,
+    sniff: sample => detectDelimiter(sample) === delimiter,
+    createParser: (): RowParser => {
+      const tokenizer = new CsvTokenizer(delimiter);
+      const convert = (rows: string[][]) => readsDecimalComma ? rows.map(normalizeDecimalCommas) : rows;
+      return {
+        write: chunk => convert(tokenizer.write(chunk)),
+        end: () => convert(tokenizer.end())
+      };
+    }
+  };
+}
+
+/**
+ * Pick the delimiter used most often on the first line, ignoring quoted text.
+ */
+export function detectDelimiter(sample: string): string {
+  const firstLine = sample.split(/\r\n|\n|\r/, 1)[0].replace(/"[^"]*"/g, '');
+  const counts = [',', '\t', ';'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  const best = counts.reduce((a, b) => b.count > a.count ? b : a);
+  return best.count > 0 ? best.delimiter : ',';
+}
+
+function normalizeDecimalCommas(row: string[]): string[] {
+  return row.map(cell => {
+    const value = cell.trim();
+    return DECIMAL_COMMA_PATTERN.test(value) ? value.replace(/\./g, '').replace(',', '.') : cell;
+  });
+}
@@ -0,0 +1,81 @@
+import { InputReader, RowParser } from './input-reader';
+
+// DOMParser is not available in workers, so tracks, routes and their points
+// are matched directly
+const SECTION_PATTERN = /<(trk|rte)\b[^>]*>([\s\S]*?)<\/\1>/g;
+const POINT_PATTERN = /<(?:trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:trkpt|rtept)>)/g;
+
+const HEADERS = ['time', 'latitude', 'longitude', 'elevation_meters', 'track'];
+
+/**
+ * GPX tracks and routes: one row per point with its time, position,
+ * elevation and the name of the track or route it belongs to.
+ */
+export const gpxReader: InputReader = {
+  format: 'gpx',
+  label: 'GPX track',
+  extensions: ['.gpx'],
+  sniff: sample => /<gpx[\s>]/.test(sample.slice(0, 4096)),
+  createParser: (): RowParser => {
+    let text = '';
+    return {
+      write: chunk => {
+        text += chunk;
+        return [];
+      },
+      end: () => [HEADERS, ...readPoints(text)]
+    };
+  }
+};
+
+function readPoints(gpx: string): string[][] {
+  const rows: string[][] = [];
+  const counts = { trk: 0, rte: 0 };
+  const sections = [...gpx.matchAll(SECTION_PATTERN)].map(([, tag, body]) => {
+    const kind = tag as keyof typeof counts;
+    counts[kind]++;
+    // Only the section's own <name>, not one inside its points
+    const header = body.replace(kind === 'trk' ? /<trkseg[\s\S]*/ : /<rtept[\s\S]*/, '');
+    return { body, name: childText(header, 'name') || `${kind === 'trk' ? 'Track' : 'Route'} ${counts[kind]}` };
+  });
+
+  // Files with bare points and no <trk> or <rte> wrappers are read as one unnamed track
+  if (sections.length === 0) {
+    sections.push({ body: gpx, name: '' });
+  }
+
+  for (const section of sections) {
+    for (const point of section.body.matchAll(POINT_PATTERN)) {
+      const attributes = point[1];
+      const body = point[2] ?? '';
+      rows.push([
+        childText(body, 'time'),
+        attribute(attributes, 'lat'),
+        attribute(attributes, 'lon'),
+        childText(body, 'ele'),
+        section.name
+      ]);
+    }
+  }
+
+  return rows;
+}
+
+function attribute(attributes: string, name: string): string {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`).exec(attributes);
+  return match ? match[1].trim() : '';
+}
+
+function childText(body: string, tag: string): string {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`).exec(body);
+  return match ? decodeEntities(match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim()) : '';
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
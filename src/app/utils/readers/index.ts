@@ -0,0 +1,51 @@
+import { InputFormat } from '../../models/data.model';
+import { InputReader, ResolvedInputFormat } from './input-reader';
+import { createDelimitedReader } from './delimited-reader';
+import { jsonlReader } from './jsonl-reader';
+import { gpxReader } from './gpx-reader';
+import { nmeaReader } from './nmea-reader';
+
+export type { InputReader, ResolvedInputFormat, RowParser } from './input-reader';
+
+// Checked in order when detecting a format from file content; the plain
+// comma-separated reader comes last as the fallback
+export const INPUT_READERS: InputReader[] = [
+  gpxReader,
+  nmeaReader,
+  jsonlReader,
+  createDelimitedReader('tsv', 'Tab-separated', '\t', ['.tsv', '.tab']),
+  createDelimitedReader('semicolon', 'Semicolon-separated', ';', []),
+  createDelimitedReader('csv', 'Comma-separated', ',', ['.csv'])
+];
+
+/** File extensions offered by the upload inputs. */
+export const ACCEPTED_EXTENSIONS = [...INPUT_READERS.flatMap(reader => reader.extensions), '.txt', '.log'].join(',');
+
+/**
+ * Choose the reader for a file: the requested format, else the one its
+ * extension names, else the first whose content sniffing matches.
+ */
+export function resolveReader(format: InputFormat, fileName: string, sample: string): InputReader {
+  if (format !== 'auto') {
+    return INPUT_READERS.find(reader => reader.format === format)!;
+  }
+
+  const extension = /\.[^.]+$/.exec(fileName.toLowerCase())?.[0] ?? '';
+  // '.csv' is often used for semicolon or tab files too, so it is sniffed
+  const byExtension = extension !== '.csv'
+    ? INPUT_READERS.find(reader => reader.extensions.includes(extension))
+    : undefined;
+
+  return byExtension
+    ?? INPUT_READERS.find(reader => reader.sniff(sample))
+    ?? INPUT_READERS[INPUT_READERS.length - 1];
+}
+
+/**
+ * Read a complete document with a reader.
+ */
+export function readRows(reader: InputReader, text: string): string[][] {
+  const parser = reader.createParser();
+  // concat rather than push(...): end() can return every row of the file
+  return parser.write(text).concat(parser.end());
+}
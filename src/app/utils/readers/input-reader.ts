@@ -0,0 +1,24 @@
+import { InputFormat } from '../../models/data.model';
+
+export type ResolvedInputFormat = Exclude<InputFormat, 'auto'>;
+
+/**
+ * Incremental parser turning file text into rows of raw cell values, header
+ * row first. Text may be split anywhere between calls to write().
+ */
+export interface RowParser {
+  write(chunk: string): string[][];
+  end(): string[][];
+}
+
+/**
+ * One supported input format. Every reader produces the same header + rows
+ * shape as the CSV tokenizer, so column mapping and building are shared.
+ */
+export interface InputReader {
+  format: ResolvedInputFormat;
+  label: string;
+  extensions: string[]; // Lower-case, with the leading dot
+  sniff(sample: string): boolean; // Recognize the format from the start of a file
+  createParser(): RowParser;
+}
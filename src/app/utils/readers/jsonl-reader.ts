@@ -0,0 +1,68 @@
+import { InputReader, RowParser } from './input-reader';
+
+/**
+ * JSON Lines: one object per line. The header is the union of keys in the
+ * order first seen, so rows are only emitted once the input ends. Nested
+ * values are kept as JSON text.
+ */
+export const jsonlReader: InputReader = {
+  format: 'jsonl',
+  label: 'JSON Lines',
+  extensions: ['.jsonl', '.ndjson'],
+  sniff: sample => /^\s*\{/.test(sample),
+  createParser: (): RowParser => {
+    const records: { [key: string]: unknown }[] = [];
+    const keys: string[] = [];
+    const seenKeys = new Set<string>();
+    let pending = '';
+    let lineNumber = 0;
+
+    const readLine = (line: string) => {
+      lineNumber++;
+      const text = line.trim(); // Also drops a leading BOM
+      if (text === '') {
+        return;
+      }
+      let record: unknown;
+      try {
+        record = JSON.parse(text);
+      } catch {
+        throw new Error(`Line ${lineNumber} is not valid JSON`);
+      }
+      if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+        throw new Error(`Line ${lineNumber} is not a JSON object`);
+      }
+      for (const key of Object.keys(record)) {
+        if (!seenKeys.has(key)) {
+          seenKeys.add(key);
+          keys.push(key);
+        }
+      }
+      records.push(record as { [key: string]: unknown });
+    };
+
+    return {
+      write: chunk => {
+        const lines = (pending + chunk).split(/\r\n|\n|\r/);
+        pending = lines.pop() ?? '';
+        lines.forEach(readLine);
+        return [];
+      },
+      end: () => {
+        readLine(pending);
+        pending = '';
+        if (keys.length === 0) {
+          return [];
+        }
+        return [keys, ...records.map(record => keys.map(key => formatCell(record[key])))];
+      }
+    };
+  }
+};
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,140 @@
+import { InputReader, RowParser } from './input-reader';
+
+const HEADERS = ['time', 'latitude', 'longitude', 'speed_kn', 'course_deg', 'altitude_meters', 'satellites', 'hdop', 'fix_quality'];
+
+interface NmeaFix {
+  time: string; // hhmmss.ss as logged
+  date: string | null; // ddmmyy from RMC
+  values: { [header: string]: string };
+}
+
+/**
+ * Raw NMEA 0183 logs. RMC and GGA sentences that share a UTC time are
+ * combined into one row. Times are written as ISO timestamps once an RMC
+ * sentence has supplied the date, and as hh:mm:ss before that. Sentences
+ * with a bad checksum are skipped.
+ */
+export const nmeaReader: InputReader = {
+  format: 'nmea',
+  label: 'NMEA log',
+  extensions: ['.nmea', '.nma'],
+  sniff: sample => /^\s*\$(?:GP|GN|GL|GA|BD)[A-Z]{3},/m.test(sample.slice(0, 4096)),
+  createParser: (): RowParser => {
+    let pending = '';
+    let current: NmeaFix | null = null;
+    let lastDate: string | null = null;
+    let headerWritten = false;
+
+    const flush = (rows: string[][]) => {
+      if (current) {
+        rows.push(toRow(current, current.date ?? lastDate));
+        current = null;
+      }
+    };
+
+    const readLine = (line: string, rows: string[][]) => {
+      const sentence = parseSentence(line);
+      if (!sentence) {
+        return;
+      }
+      const [type, ...fields] = sentence;
+      if (type !== 'RMC' && type !== 'GGA') {
+        return;
+      }
+
+      // Skip sentences without a time or a valid fix
+      const time = fields[0];
+      const hasFix = type === 'RMC' ? fields[1] === 'A' : !!fields[5] && fields[5] !== '0';
+      if (!time || !hasFix) {
+        return;
+      }
+      if (!current || current.time !== time) {
+        flush(rows);
+        current = { time, date: null, values: {} };
+      }
+
+      if (type === 'RMC') {
+        current.date = fields[8] || null;
+        lastDate = current.date ?? lastDate;
+        current.values['latitude'] = coordinate(fields[2], fields[3]);
+        current.values['longitude'] = coordinate(fields[4], fields[5]);
+        current.values['speed_kn'] = fields[6] ?? '';
+        current.values['course_deg'] = fields[7] ?? '';
+      } else {
+        current.values['fix_quality'] = fields[5];
+        current.values['latitude'] = coordinate(fields[1], fields[2]);
+        current.values['longitude'] = coordinate(fields[3], fields[4]);
+        current.values['satellites'] = fields[6] ?? '';
+        current.values['hdop'] = fields[7] ?? '';
+        current.values['altitude_meters'] = fields[8] ?? '';
+      }
+    };
+
+    const readLines = (text: string, final: boolean): string[][] => {
+      const rows: string[][] = [];
+      if (!headerWritten) {
+        rows.push(HEADERS);
+        headerWritten = true;
+      }
+      const lines = (pending + text).split(/\r\n|\n|\r/);
+      pending = final ? '' : lines.pop() ?? '';
+      lines.forEach(line => readLine(line, rows));
+      if (final) {
+        flush(rows);
+      }
+      return rows;
+    };
+
+    return {
+      write: chunk => readLines(chunk, false),
+      end: () => readLines('', true)
+    };
+  }
+};
+
+/** Split a sentence into its type (e.g. 'RMC') and fields, checking the checksum. */
+function parseSentence(line: string): string[] | null {
+  const match = /^\s*\$([A-Z]{2})([A-Z]{3}),([^*]*)(?:\*([0-9A-Fa-f]{2}))?\s*$/.exec(line);
+  if (!match) {
+    return null;
+  }
+  const [, talker, type, body, checksum] = match;
+  if (checksum !== undefined) {
+    let sum = 0;
+    for (const char of `${talker}${type},${body}`) {
+      sum ^= char.charCodeAt(0);
+    }
+    if (sum !== parseInt(checksum, 16)) {
+      return null;
+    }
+  }
+  return [type, ...body.split(',')];
+}
+
+/** Convert ddmm.mmmm / dddmm.mmmm with a hemisphere letter to decimal degrees. */
+function coordinate(value: string | undefined, hemisphere: string | undefined): string {
+  if (!value || !hemisphere) {
+    return '';
+  }
+  const dot = value.indexOf('.');
+  const degreeDigits = (dot >= 0 ? dot : value.length) - 2;
+  const degrees = parseInt(value.slice(0, degreeDigits), 10);
+  const minutes = parseFloat(value.slice(degreeDigits));
+  if (isNaN(degrees) || isNaN(minutes)) {
+    return '';
+  }
+  const decimal = degrees + minutes / 60;
+  return String(hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal);
+}
+
+function toRow(fix: NmeaFix, date: string | null): string[] {
+  const clock = `${fix.time.slice(0, 2)}:${fix.time.slice(2, 4)}:${fix.time.slice(4)}`;
+  let time = clock;
+  if (date && date.length === 6) {
+    // Two-digit years: receivers from before 2000 log 80-99
+    const shortYear = +date.slice(4, 6);
+    const year = shortYear + (shortYear >= 80 ? 1900 : 2000);
+    time = `${year}-${date.slice(2, 4)}-${date.slice(0, 2)}T${clock}Z`;
+  }
+  return HEADERS.map(header => header === 'time' ? time : fix.values[header] ?? '');
+}
@@ -0,0 +1,91 @@
+import { ColumnStoreData, DuplicatePolicy } from '../models/data.model';
+
+/**
+ * Put columns in time order and collapse rows that share a timestamp. Rows
+ * are moved through an index permutation, so no row objects are built.
+ *
+ * The sort is stable, so rows with equal times keep their file order and
+ * 'keep-first' / 'keep-last' refer to that order. 'average' replaces a run
+ * of duplicates with one row holding the mean of each of `averagedKeys`
+ * (missing values ignored) and the first row's value for everything else.
+ */
+export function orderByTime(data: ColumnStoreData, policy: DuplicatePolicy, averagedKeys: string[]): ColumnStoreData {
+  const { times } = data;
+  const order = timeOrder(times);
+
+  if (policy === 'keep-all') {
+    return selectRows(data, order);
+  }
+
+  // Positions in `order` where a run of equal times starts
+  const runStarts: number[] = [];
+  for (let i = 0; i < order.length; i++) {
+    if (i === 0 || times[order[i]] !== times[order[i - 1]]) {
+      runStarts.push(i);
+    }
+  }
+  const runEnd = (run: number) => run + 1 < runStarts.length ? runStarts[run + 1] : order.length;
+
+  const picks = Int32Array.from(runStarts, (start, run) => policy === 'keep-last' ? order[runEnd(run) - 1] : order[start]);
+  const result = selectRows(data, picks);
+
+  if (policy === 'average') {
+    for (const key of averagedKeys) {
+      const values = data.numeric[key];
+      const averaged = result.numeric[key];
+      if (!values) {
+        continue;
+      }
+      runStarts.forEach((start, run) => {
+        const end = runEnd(run);
+        if (end - start < 2) {
+          return;
+        }
+        let total = 0;
+        let count = 0;
+        for (let i = start; i < end; i++) {
+          const value = values[order[i]];
+          if (isFinite(value)) {
+            total += value;
+            count++;
+          }
+        }
+        if (count > 0) {
+          averaged[run] = total / count;
+        }
+      });
+    }
+  }
+
+  return result;
+}
+
+/** Row indices in time order; ties keep their file order. */
+function timeOrder(times: Float64Array): Int32Array {
+  const order = Int32Array.from(times, (_, index) => index);
+  if (isTimeOrdered(times)) {
+    return order;
+  }
+  return order.sort((a, b) => (times[a] - times[b]) || (a - b));
+}
+
+function isTimeOrdered(times: Float64Array): boolean {
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] < times[i - 1]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function selectRows(data: ColumnStoreData, indices: Int32Array): ColumnStoreData {
+  const pick = (values: Float64Array) => Float64Array.from(indices, index => values[index]);
+  const result: ColumnStoreData = { times: pick(data.times), numeric: {}, text: {} };
+  for (const [key, values] of Object.entries(data.numeric)) {
+    result.numeric[key] = pick(values);
+  }
+  for (const [key, column] of Object.entries(data.text)) {
+    result.text[key] = { codes: Int32Array.from(indices, index => column.codes[index]), dictionary: column.dictionary };
+  }
+  return result;
+}
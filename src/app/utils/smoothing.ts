@@ -0,0 +1,293 @@
+import { SmoothingOverlay } from '../models/data.model';
+
+const METHOD_LABELS: { [method in SmoothingOverlay['method']]: string } = {
+  'moving-average': 'Moving average',
+  'exponential': 'Exponential',
+  'median': 'Median',
+  'envelope': 'Min/max envelope'
+};
+
+export function overlayLabel(overlay: SmoothingOverlay): string {
+  const window = overlay.windowUnit === 'seconds' ? `${overlay.window} s` : `${overlay.window} samples`;
+  return `${METHOD_LABELS[overlay.method]} (${window})`;
+}
+
+/**
+ * Compute an overlay for one column: one smoothed line, or the lower and
+ * upper edge of the envelope. Windows are centred on each row, except for
+ * exponential smoothing, which only looks back: the window is its span in
+ * samples or its time constant in seconds. Rows with a missing value stay
+ * missing so gaps remain visible.
+ */
+export function computeOverlay(overlay: SmoothingOverlay, times: Float64Array, values: Float64Array): Float64Array[] {
+  if (overlay.method === 'exponential') {
+    return [exponentialSmoothing(overlay, times, values)];
+  }
+
+  const windows = centredWindows(overlay, times);
+  switch (overlay.method) {
+    case 'moving-average':
+      return [movingAverage(values, windows)];
+    case 'median':
+      return [movingMedian(values, windows)];
+    case 'envelope':
+      return movingExtremes(values, windows);
+  }
+}
+
+/** For each row, the rows [from, to) of its window; both ends only move forward. */
+function centredWindows(overlay: SmoothingOverlay, times: Float64Array): { from: Int32Array, to: Int32Array } {
+  const length = times.length;
+  const from = new Int32Array(length);
+  const to = new Int32Array(length);
+
+  if (overlay.windowUnit === 'samples') {
+    const size = Math.max(1, Math.round(overlay.window));
+    const before = Math.floor((size - 1) / 2);
+    for (let i = 0; i < length; i++) {
+      from[i] = Math.max(0, i - before);
+      to[i] = Math.min(length, i - before + size);
+    }
+    return { from, to };
+  }
+
+  const half = (overlay.window * 1000) / 2;
+  let start = 0;
+  let end = 0;
+  for (let i = 0; i < length; i++) {
+    while (times[start] < times[i] - half) {
+      start++;
+    }
+    while (end < length && times[end] <= times[i] + half) {
+      end++;
+    }
+    from[i] = start;
+    to[i] = Math.max(end, i + 1);
+  }
+  return { from, to };
+}
+
+function movingAverage(values: Float64Array, windows: { from: Int32Array, to: Int32Array }): Float64Array {
+  const result = new Float64Array(values.length);
+  let sum = 0;
+  let count = 0;
+  let start = 0;
+  let end = 0;
+  for (let i = 0; i < values.length; i++) {
+    for (; end < windows.to[i]; end++) {
+      if (!isNaN(values[end])) {
+        sum += values[end];
+        count++;
+      }
+    }
+    for (; start < windows.from[i]; start++) {
+      if (!isNaN(values[start])) {
+        sum -= values[start];
+        count--;
+      }
+    }
+    result[i] = isNaN(values[i]) || count === 0 ? NaN : sum / count;
+  }
+  return result;
+}
+
+/**
+ * Window medians with two heaps of row indices: the lower half in a max-heap
+ * and the upper half in a min-heap. Rows that left the window are only
+ * dropped once they reach the top of a heap, so each row costs a few heap
+ * steps rather than a sort of its window.
+ */
+function movingMedian(values: Float64Array, windows: { from: Int32Array, to: Int32Array }): Float64Array {
+  const result = new Float64Array(values.length);
+  // Ties are broken by row so both heaps agree on the order
+  const lower = new IndexHeap((a, b) => values[a] > values[b] || (values[a] === values[b] && a > b));
+  const upper = new IndexHeap((a, b) => values[a] < values[b] || (values[a] === values[b] && a < b));
+  const inLower = new Uint8Array(values.length);
+  let lowerSize = 0; // Rows still in the window in each heap
+  let upperSize = 0;
+  let start = 0;
+  let end = 0;
+
+  const prune = () => {
+    while (lower.size > 0 && lower.peek() < start) {
+      lower.pop();
+    }
+    while (upper.size > 0 && upper.peek() < start) {
+      upper.pop();
+    }
+  };
+  const rebalance = () => {
+    prune();
+    while (lowerSize > upperSize + 1) {
+      const row = lower.pop();
+      inLower[row] = 0;
+      upper.push(row);
+      lowerSize--;
+      upperSize++;
+      prune();
+    }
+    while (upperSize > lowerSize) {
+      const row = upper.pop();
+      inLower[row] = 1;
+      lower.push(row);
+      upperSize--;
+      lowerSize++;
+      prune();
+    }
+  };
+
+  for (let i = 0; i < values.length; i++) {
+    for (; end < windows.to[i]; end++) {
+      if (isNaN(values[end])) {
+        continue;
+      }
+      if (lowerSize === 0 || values[end] <= values[lower.peek()]) {
+        inLower[end] = 1;
+        lower.push(end);
+        lowerSize++;
+      } else {
+        upper.push(end);
+        upperSize++;
+      }
+      rebalance();
+    }
+    for (; start < windows.from[i]; start++) {
+      if (isNaN(values[start])) {
+        continue;
+      }
+      if (inLower[start]) {
+        lowerSize--;
+      } else {
+        upperSize--;
+      }
+    }
+    rebalance();
+
+    if (isNaN(values[i]) || lowerSize === 0) {
+      result[i] = NaN;
+    } else {
+      result[i] = lowerSize > upperSize ? values[lower.peek()] : (values[lower.peek()] + values[upper.peek()]) / 2;
+    }
+  }
+  return result;
+}
+
+/** A binary heap of row indices; `before(a, b)` is true when a belongs above b. */
+class IndexHeap {
+  private items: number[] = [];
+
+  constructor(private readonly before: (a: number, b: number) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): number {
+    return this.items[0];
+  }
+
+  push(item: number): void {
+    const items = this.items;
+    let index = items.push(item) - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(items[index], items[parent])) {
+        break;
+      }
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length === 0) {
+      return top;
+    }
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < items.length && this.before(items[left], items[first])) {
+        first = left;
+      }
+      if (right < items.length && this.before(items[right], items[first])) {
+        first = right;
+      }
+      if (first === index) {
+        return top;
+      }
+      [items[index], items[first]] = [items[first], items[index]];
+      index = first;
+    }
+  }
+}
+
+/** Window minimum and maximum, with monotonic queues of row indices. */
+function movingExtremes(values: Float64Array, windows: { from: Int32Array, to: Int32Array }): Float64Array[] {
+  const lower = new Float64Array(values.length);
+  const upper = new Float64Array(values.length);
+  const minQueue: number[] = [];
+  const maxQueue: number[] = [];
+  let minHead = 0;
+  let maxHead = 0;
+  let end = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    for (; end < windows.to[i]; end++) {
+      const value = values[end];
+      if (isNaN(value)) {
+        continue;
+      }
+      while (minQueue.length > minHead && values[minQueue[minQueue.length - 1]] >= value) {
+        minQueue.pop();
+      }
+      minQueue.push(end);
+      while (maxQueue.length > maxHead && values[maxQueue[maxQueue.length - 1]] <= value) {
+        maxQueue.pop();
+      }
+      maxQueue.push(end);
+    }
+    while (minHead < minQueue.length && minQueue[minHead] < windows.from[i]) {
+      minHead++;
+    }
+    while (maxHead < maxQueue.length && maxQueue[maxHead] < windows.from[i]) {
+      maxHead++;
+    }
+
+    const empty = isNaN(values[i]) || minHead === minQueue.length;
+    lower[i] = empty ? NaN : values[minQueue[minHead]];
+    upper[i] = empty ? NaN : values[maxQueue[maxHead]];
+  }
+  return [lower, upper];
+}
+
+function exponentialSmoothing(overlay: SmoothingOverlay, times: Float64Array, values: Float64Array): Float64Array {
+  const result = new Float64Array(values.length);
+  const sampleAlpha = 2 / (Math.max(1, overlay.window) + 1);
+  let state = NaN;
+  let stateTime = NaN;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNaN(value)) {
+      result[i] = NaN;
+      continue;
+    }
+    if (isNaN(state)) {
+      state = value;
+    } else {
+      // In seconds, how far the state moves depends on the time since the last value
+      const alpha = overlay.windowUnit === 'seconds'
+        ? 1 - Math.exp(-(times[i] - stateTime) / (Math.max(overlay.window, 0.001) * 1000))
+        : sampleAlpha;
+      state += alpha * (value - state);
+    }
+    stateTime = times[i];
+    result[i] = state;
+  }
+  return result;
+}
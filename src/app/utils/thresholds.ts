@@ -0,0 +1,42 @@
+import { FieldThreshold, ThresholdSeverity } from '../models/data.model';
+
+export const THRESHOLD_COLORS: { [severity in ThresholdSeverity]: string } = {
+  warning: '#ff9800',
+  critical: '#d62728'
+};
+
+export interface ViolationSpan {
+  start: number; // Epoch ms of the first row beyond the limit
+  end: number; // Epoch ms of the last one
+  peak: number;
+}
+
+function isViolation(threshold: FieldThreshold, value: number): boolean {
+  return threshold.direction === 'upper' ? value > threshold.value : value < threshold.value;
+}
+
+/**
+ * Runs of consecutive rows beyond a threshold, with the value furthest
+ * beyond it. A missing value ends a run, since nothing is known about the
+ * rows in between.
+ */
+export function findViolations(times: Float64Array, values: Float64Array, threshold: FieldThreshold): ViolationSpan[] {
+  const spans: ViolationSpan[] = [];
+  let current: ViolationSpan | null = null;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (isNaN(value) || !isViolation(threshold, value)) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { start: times[i], end: times[i], peak: value };
+      spans.push(current);
+      continue;
+    }
+    current.end = times[i];
+    current.peak = threshold.direction === 'upper' ? Math.max(current.peak, value) : Math.min(current.peak, value);
+  }
+  return spans;
+}
@@ -0,0 +1,92 @@
+import { UnitSystem } from '../models/data.model';
+
+interface UnitDefinition {
+  symbol: string;
+  quantity: 'speed' | 'pressure' | 'length' | 'distance' | 'temperature' | 'volume' | 'mass';
+  aliases: string[]; // Lower-case header suffixes that name this unit
+  factor: number; // value * factor + offset gives the quantity's base unit
+  offset: number;
+  imperial: string; // Equivalent unit in each system
+  metric: string;
+}
+
+const UNITS: UnitDefinition[] = [
+  { symbol: 'mph', quantity: 'speed', aliases: ['mph'], factor: 0.44704, offset: 0, imperial: 'mph', metric: 'km/h' },
+  { symbol: 'km/h', quantity: 'speed', aliases: ['kmh', 'kph', 'kmph'], factor: 1 / 3.6, offset: 0, imperial: 'mph', metric: 'km/h' },
+  { symbol: 'm/s', quantity: 'speed', aliases: ['mps'], factor: 1, offset: 0, imperial: 'mph', metric: 'm/s' },
+  { symbol: 'kn', quantity: 'speed', aliases: ['kn', 'kt', 'kts', 'knots'], factor: 1852 / 3600, offset: 0, imperial: 'mph', metric: 'km/h' },
+  { symbol: 'psi', quantity: 'pressure', aliases: ['psi'], factor: 6894.757, offset: 0, imperial: 'psi', metric: 'kPa' },
+  { symbol: 'kPa', quantity: 'pressure', aliases: ['kpa'], factor: 1000, offset: 0, imperial: 'psi', metric: 'kPa' },
+  { symbol: 'bar', quantity: 'pressure', aliases: ['bar'], factor: 100000, offset: 0, imperial: 'psi', metric: 'bar' },
+  { symbol: 'ft', quantity: 'length', aliases: ['ft', 'feet'], factor: 0.3048, offset: 0, imperial: 'ft', metric: 'm' },
+  { symbol: 'm', quantity: 'length', aliases: ['meters', 'metres'], factor: 1, offset: 0, imperial: 'ft', metric: 'm' },
+  { symbol: 'mi', quantity: 'distance', aliases: ['mi', 'miles'], factor: 1609.344, offset: 0, imperial: 'mi', metric: 'km' },
+  { symbol: 'km', quantity: 'distance', aliases: ['km'], factor: 1000, offset: 0, imperial: 'mi', metric: 'km' },
+  { symbol: '°F', quantity: 'temperature', aliases: ['degf'], factor: 5 / 9, offset: -32 * 5 / 9, imperial: '°F', metric: '°C' },
+  { symbol: '°C', quantity: 'temperature', aliases: ['degc'], factor: 1, offset: 0, imperial: '°F', metric: '°C' },
+  { symbol: 'gal', quantity: 'volume', aliases: ['gal', 'gallons'], factor: 3.785411784, offset: 0, imperial: 'gal', metric: 'L' },
+  { symbol: 'L', quantity: 'volume', aliases: ['liters', 'litres'], factor: 1, offset: 0, imperial: 'gal', metric: 'L' },
+  { symbol: 'lb', quantity: 'mass', aliases: ['lb', 'lbs'], factor: 0.45359237, offset: 0, imperial: 'lb', metric: 'kg' },
+  { symbol: 'kg', quantity: 'mass', aliases: ['kg'], factor: 1, offset: 0, imperial: 'lb', metric: 'kg' }
+];
+
+/** Units that can be assigned to a field, in display order. */
+export const UNIT_SYMBOLS = UNITS.map(unit => unit.symbol);
+
+/**
+ * Detect a unit from the last word of a column name, e.g. `speed_mph`,
+ * `Pressure (psi)` or `altitude-ft`. Single letters are left alone, as in
+ * `Notch (m)` or `Gear l` they rarely mean metres or litres; such units can
+ * still be set by hand when mapping columns.
+ */
+export function detectUnit(header: string): string | null {
+  const suffix = unitSuffix(header);
+  if (suffix === null || suffix.length < 2) {
+    return null;
+  }
+  const unit = UNITS.find(u => u.aliases.includes(suffix.toLowerCase()) || u.symbol === suffix);
+  return unit ? unit.symbol : null;
+}
+
+/**
+ * Remove a detected unit suffix from a column name so it is not repeated in
+ * the field label.
+ */
+export function stripUnitSuffix(header: string): string {
+  if (detectUnit(header) === null) {
+    return header;
+  }
+  return header.replace(/[\s_\-(\[]*[^\s_\-()\[\]]+[)\]]?\s*$/, '') || header;
+}
+
+/** The unit a field is shown in under a unit system. */
+export function displayUnit(unit: string | null, system: UnitSystem): string | null {
+  const definition = findUnit(unit);
+  if (!definition || system === 'source') {
+    return unit;
+  }
+  return definition[system];
+}
+
+/**
+ * Build a function converting values between two units of the same
+ * quantity. Unknown or incompatible units leave values unchanged.
+ */
+export function createUnitConverter(from: string | null, to: string | null): (value: number) => number {
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target || source === target || source.quantity !== target.quantity) {
+    return value => value;
+  }
+  return value => ((value * source.factor + source.offset) - target.offset) / target.factor;
+}
+
+function findUnit(symbol: string | null): UnitDefinition | undefined {
+  return symbol === null ? undefined : UNITS.find(unit => unit.symbol === symbol);
+}
+
+function unitSuffix(header: string): string | null {
+  const words = header.trim().split(/[\s_\-()\[\]]+/).filter(word => word !== '');
+  // A lone word is the quantity itself, not a unit
+  return words.length > 1 ? words[words.length - 1] : null;
+}
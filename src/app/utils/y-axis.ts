@@ -0,0 +1,64 @@
+import * as d3 from 'd3';
+import { YAxisScale, YAxisSettings } from '../models/data.model';
+
+export type YScale = d3.ScaleContinuousNumeric<number, number>;
+
+export function createYScale(scale: YAxisScale): YScale {
+  switch (scale) {
+    case 'log':
+      return d3.scaleLog();
+    case 'symlog':
+      return d3.scaleSymlog();
+    default:
+      return d3.scaleLinear();
+  }
+}
+
+/**
+ * The y domain for an axis. `visible` is the value extent of the rows in
+ * view and `full` that of every row; either is null without values. A flat
+ * line gets some room above and below instead of a zero-height domain, and
+ * log scales are kept above zero.
+ */
+export function resolveYDomain(settings: YAxisSettings, visible: [number, number] | null,
+  full: [number, number] | null): [number, number] {
+  const fitted = settings.mode === 'full' ? full ?? visible : visible ?? full;
+  let [min, max] = fitted ?? [0, 1];
+
+  if (settings.mode === 'include-zero') {
+    min = Math.min(min, 0);
+    max = Math.max(max, 0);
+  } else if (settings.mode === 'fixed') {
+    min = settings.min ?? min;
+    max = settings.max ?? max;
+  }
+  if (min > max) {
+    [min, max] = [max, min];
+  }
+
+  if (settings.scale === 'log') {
+    // Zero and negative values are not drawn on a log axis
+    if (max <= 0) {
+      return [1, 10];
+    }
+    if (min <= 0) {
+      min = max / 1000;
+    }
+    return min === max ? [min / 2, max * 2] : [min, max];
+  }
+
+  if (min === max) {
+    const padding = Math.abs(min) * 0.1 || 1;
+    return [min - padding, max + padding];
+  }
+  return [min, max];
+}
+
+/** Settings with the fixed limits passed through a unit converter. */
+export function convertYLimits(settings: YAxisSettings, convert: (value: number) => number): YAxisSettings {
+  return {
+    ...settings,
+    min: settings.min === null ? null : convert(settings.min),
+    max: settings.max === null ? null : convert(settings.max)
+  };
+}
@@ -0,0 +1,201 @@
+import { TimeRange } from '../models/data.model';
+
+// Closest a wheel or pinch zoom can get
+export const MIN_ZOOM_SPAN_MS = 1000;
+
+// Wheel delta, in pixels, that doubles or halves the visible span
+const WHEEL_PIXELS_PER_DOUBLING = 500;
+
+// Wheel events closer together than this belong to one gesture
+const WHEEL_GESTURE_GAP_MS = 400;
+
+// Ids shared by the zoom steps of one gesture, unique across charts
+let nextGestureId = 1;
+
+export interface ZoomGestureHost {
+  element: HTMLElement;
+  /** The visible time range and the plot area, in pixels from the element's left edge. */
+  view(): { range: TimeRange, left: number, width: number };
+  /** The time range of the whole dataset, or null before data is loaded. */
+  bounds(): TimeRange | null;
+  /**
+   * Show a time range, or everything for null. Steps of one gesture share
+   * a `gesture` id, so they can be kept as a single history entry.
+   */
+  zoomTo(range: TimeRange | null, gesture: number): void;
+}
+
+/**
+ * Scale a time range by `factor` around `anchor` (epoch ms), which keeps its
+ * place on screen. Returns null once the range covers the whole dataset.
+ */
+export function zoomTimeRange(range: TimeRange, anchor: number, factor: number,
+  bounds: TimeRange | null): TimeRange | null {
+  const start = range.start.getTime();
+  const end = range.end.getTime();
+  const span = Math.max(MIN_ZOOM_SPAN_MS, (end - start) * factor);
+  const ratio = end > start ? (anchor - start) / (end - start) : 0.5;
+  return fitToBounds(anchor - span * ratio, span, bounds);
+}
+
+/** Move a time range by `offsetMs`, stopping at the ends of the dataset. */
+export function panTimeRange(range: TimeRange, offsetMs: number, bounds: TimeRange | null): TimeRange | null {
+  const start = range.start.getTime();
+  return fitToBounds(start + offsetMs, range.end.getTime() - start, bounds);
+}
+
+/**
+ * Zoom on the mouse wheel around the cursor, pan on shift-drag (the brush
+ * ignores shift-clicks) and follow two-finger pinch and pan on touch
+ * screens. Updates are coalesced to one per animation frame. Returns a
+ * function that removes the listeners.
+ */
+export function attachZoomGestures(host: ZoomGestureHost): () => void {
+  const element = host.element;
+  let pending: TimeRange | null | undefined;
+  let pendingGesture = 0;
+  let frame = 0;
+
+  // Nothing to zoom before data is loaded
+  const currentRange = () => {
+    if (!host.bounds()) {
+      return null;
+    }
+    return pending === undefined ? host.view().range : pending ?? host.bounds();
+  };
+
+  const schedule = (range: TimeRange | null, gesture: number) => {
+    pending = range;
+    pendingGesture = gesture;
+    if (!frame) {
+      frame = requestAnimationFrame(() => {
+        frame = 0;
+        const next = pending;
+        pending = undefined;
+        if (next !== undefined) {
+          host.zoomTo(next, pendingGesture);
+        }
+      });
+    }
+  };
+
+  // Time under a client x position, in the given range
+  const timeAt = (clientX: number, range: TimeRange) => {
+    const { left, width } = host.view();
+    const x = clientX - element.getBoundingClientRect().left - left;
+    return range.start.getTime() + (x / width) * (range.end.getTime() - range.start.getTime());
+  };
+
+  let wheelGesture = 0;
+  let lastWheelAt = -Infinity;
+
+  const onWheel = (event: WheelEvent) => {
+    const range = currentRange();
+    if (!range) {
+      return;
+    }
+    event.preventDefault();
+    if (event.timeStamp - lastWheelAt > WHEEL_GESTURE_GAP_MS) {
+      wheelGesture = nextGestureId++;
+    }
+    lastWheelAt = event.timeStamp;
+    // Line and page deltas come from some mice; treat them as pixels
+    const delta = event.deltaMode === WheelEvent.DOM_DELTA_PIXEL ? event.deltaY : event.deltaY * 40;
+    const factor = Math.pow(2, delta / WHEEL_PIXELS_PER_DOUBLING);
+    schedule(zoomTimeRange(range, timeAt(event.clientX, range), factor, host.bounds()), wheelGesture);
+  };
+
+  const onMouseDown = (event: MouseEvent) => {
+    const range = currentRange();
+    if (!event.shiftKey || event.button !== 0 || !range) {
+      return;
+    }
+    event.preventDefault();
+    const startX = event.clientX;
+    const span = range.end.getTime() - range.start.getTime();
+    const gesture = nextGestureId++;
+
+    const onMouseMove = (move: MouseEvent) => {
+      const offset = -(move.clientX - startX) / host.view().width * span;
+      schedule(panTimeRange(range, offset, host.bounds()), gesture);
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  // Times under the two fingers when the gesture started
+  let pinch: [number, number] | null = null;
+  let pinchGesture = 0;
+
+  const onTouchStart = (event: TouchEvent) => {
+    const range = currentRange();
+    if (event.touches.length !== 2 || !range) {
+      pinch = null;
+      return;
+    }
+    pinch = [timeAt(event.touches[0].clientX, range), timeAt(event.touches[1].clientX, range)];
+    pinchGesture = nextGestureId++;
+  };
+
+  const onTouchMove = (event: TouchEvent) => {
+    if (!pinch || event.touches.length !== 2) {
+      return;
+    }
+    event.preventDefault();
+    // Choose the range that keeps both starting times under the fingers
+    const { left, width } = host.view();
+    const origin = element.getBoundingClientRect().left + left;
+    const x0 = event.touches[0].clientX - origin;
+    const x1 = event.touches[1].clientX - origin;
+    if (Math.abs(x1 - x0) < 10) {
+      return;
+    }
+    const msPerPixel = Math.abs((pinch[1] - pinch[0]) / (x1 - x0));
+    const span = Math.max(MIN_ZOOM_SPAN_MS, msPerPixel * width);
+    const start = pinch[0] - x0 * (span / width);
+    schedule(fitToBounds(start, span, host.bounds()), pinchGesture);
+  };
+
+  const onTouchEnd = (event: TouchEvent) => {
+    if (event.touches.length < 2) {
+      pinch = null;
+    }
+  };
+
+  // Single-finger drags keep scrolling the page; pinches belong to the chart
+  const touchAction = element.style.touchAction;
+  element.style.touchAction = 'pan-y';
+
+  element.addEventListener('wheel', onWheel, { passive: false });
+  element.addEventListener('mousedown', onMouseDown);
+  element.addEventListener('touchstart', onTouchStart);
+  element.addEventListener('touchmove', onTouchMove, { passive: false });
+  element.addEventListener('touchend', onTouchEnd);
+
+  return () => {
+    cancelAnimationFrame(frame);
+    element.style.touchAction = touchAction;
+    element.removeEventListener('wheel', onWheel);
+    element.removeEventListener('mousedown', onMouseDown);
+    element.removeEventListener('touchstart', onTouchStart);
+    element.removeEventListener('touchmove', onTouchMove);
+    element.removeEventListener('touchend', onTouchEnd);
+  };
+}
+
+/** A range of `span` ms from `start`, shifted to lie within the bounds; null if it covers them. */
+function fitToBounds(start: number, span: number, bounds: TimeRange | null): TimeRange | null {
+  if (bounds) {
+    const min = bounds.start.getTime();
+    const max = bounds.end.getTime();
+    if (span >= max - min) {
+      return null;
+    }
+    start = Math.min(Math.max(start, min), max - span);
+  }
+  return { start: new Date(start), end: new Date(start + span) };
+}